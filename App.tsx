@@ -1,117 +1,361 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { StatusBar } from "expo-status-bar";
 import {
   StyleSheet,
   Text,
   View,
   TouchableOpacity,
+  TextInput,
   ScrollView,
   Alert,
-  Platform,
   SafeAreaView,
 } from "react-native";
-import { useWhisperModels } from "./hooks/useWhisperModels";
-import { Directory, File, Paths } from "expo-file-system";
-import { TranscribeRealtimeOptions } from "whisper.rn/index.js";
+import { useWhisperModels, type WhisperModel } from "./hooks/useWhisperModels";
+import { useTranscriptHistory } from "./hooks/useTranscriptHistory";
+import { useVocabulary } from "./hooks/useVocabulary";
+import { useTranscriptionSettings } from "./hooks/useTranscriptionSettings";
 import {
-  getRecordingPermissionsAsync,
-  requestRecordingPermissionsAsync,
-} from "expo-audio";
+  useRealtimeTranscription,
+  type RealtimeTranscriptionEvent,
+  type RealtimeTranscriptionStatus,
+} from "./hooks/useRealtimeTranscription";
+import {
+  useBatchTranscription,
+  type BatchTranscribe,
+} from "./hooks/useBatchTranscription";
+import HistoryScreen from "./screens/HistoryScreen";
+import BatchScreen from "./screens/BatchScreen";
+import BenchmarkScreen from "./screens/BenchmarkScreen";
+import EvaluationScreen from "./screens/EvaluationScreen";
+import VocabularyScreen from "./screens/VocabularyScreen";
+import SettingsScreen from "./screens/SettingsScreen";
+import ExportActions from "./components/ExportActions";
+import SegmentList from "./components/SegmentList";
+import type { ExportableTranscript } from "./lib/transcriptExport";
+import { getAppDirectory } from "./lib/appFiles";
+import {
+  getSampleAudioFile,
+  importAudioFile,
+  importAudioFolder,
+} from "./lib/audioFiles";
+import { deleteLiveRecording } from "./lib/liveRecording";
+import { prepareAudioForWhisper } from "./lib/audioPipeline";
+import {
+  correctSegmentTerms,
+  correctVocabularyTerms,
+  getCorrectionTerms,
+} from "./lib/vocabulary";
+import {
+  getSegmentsDurationMs,
+  type NewTranscriptEntry,
+  type TranscriptEntry,
+  type TranscriptSegment,
+} from "./lib/transcriptStore";
+import {
+  createLongformJob,
+  deleteLongformJob,
+  getJobProgress,
+  listLongformJobs,
+  readLongformJob,
+  runLongformJob,
+  type LongformJob,
+} from "./lib/longformJobs";
+import {
+  hasSpeakers,
+  renameSpeaker,
+  splitSpeakerTurns,
+  stripSpeakerTurns,
+  supportsSpeakerTurns,
+} from "./lib/speakers";
+import {
+  compareDownloadEntries,
+  isDownloadInFlight,
+  type DownloadEntry,
+} from "./lib/downloadQueue";
+import {
+  getRealtimeVadOptions,
+  getVadOptions,
+  VAD_MODEL,
+  type VadSettings,
+} from "./lib/vad";
+import {
+  getDecodingOptions,
+  getRealtimeCaptureOptions,
+} from "./lib/transcriptionSettings";
+import {
+  AUTO_LANGUAGE,
+  canTranslate,
+  detectFileLanguage,
+  formatDetection,
+  getLanguageLabel,
+  getLanguageOptions,
+  getTaskLabel,
+  readLanguagePreferences,
+  resolveLanguage,
+  tallyLanguages,
+  writeLanguagePreferences,
+  type LanguageDetection,
+  type TranscriptTask,
+} from "./lib/language";
+import { File } from "expo-file-system";
+import type { WhisperContext } from "whisper.rn/index.js";
 
-const APP_DIRECTORY_NAME = "whisper-app-files";
 const ACCENT_COLOR = "#0A84FF";
+const MAX_CONCURRENT_DOWNLOADS = 2;
+
+const DOWNLOAD_STATUS_LABELS: Record<DownloadEntry["status"], string> = {
+  queued: "Queued",
+  downloading: "Downloading",
+  paused: "Paused",
+  verifying: "Verifying",
+  done: "Downloaded",
+  failed: "Failed",
+};
+
+type NumericVadSetting = Exclude<keyof VadSettings, "enabled">;
+
+// Result cards keep the history ID so edits can be saved back
+type CardTranscript = ExportableTranscript & { id?: string; audioUri?: string };
+
+const LIVE_STATUS_LABELS: Record<RealtimeTranscriptionStatus, string> = {
+  idle: "Idle",
+  requestingPermission: "Waiting for microphone",
+  starting: "Starting…",
+  listening: "Listening",
+  stopping: "Stopping…",
+  error: "Stopped",
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const formatChunks = (job: LongformJob) => {
+  const { chunks, nextChunk } = job;
+  const progress = `${nextChunk}/${chunks.length} chunk${
+    chunks.length === 1 ? "" : "s"
+  }`;
+  if (job.chunking !== "speech") return progress;
+  return `Speech ${formatSeconds(chunks[0].startMs)}–${formatSeconds(
+    chunks[chunks.length - 1].endMs
+  )} · ${progress}`;
+};
+
+// Speaker turns are split once the whole file is done
+const getDisplaySegments = (segments: TranscriptSegment[]) =>
+  segments.map((segment) => ({
+    ...segment,
+    text: stripSpeakerTurns(segment.text),
+  }));
+
+const VAD_SETTING_CONTROLS: {
+  key: NumericVadSetting;
+  label: string;
+  step: number;
+  unit?: string;
+}[] = [
+  { key: "threshold", label: "Speech threshold", step: 0.05 },
+  { key: "minSilenceDurationMs", label: "Min silence", step: 50, unit: "ms" },
+  { key: "speechPadMs", label: "Speech padding", step: 50, unit: "ms" },
+  { key: "liveThreshold", label: "Live threshold", step: 0.05 },
+];
 
 export default function App() {
-  const [realtimeTranscriber, setRealtimeTranscriber] = useState<any>(null);
   const [isTranscribing, setIsTranscribing] = useState(false);
-  const [isRealtimeActive, setIsRealtimeActive] = useState(false);
   const [transcriptionResult, setTranscriptionResult] = useState<string>("");
-  const [realtimeResult, setRealtimeResult] = useState<string>("");
   const [realtimeFinalResult, setRealtimeFinalResult] = useState<string>("");
   const [error, setError] = useState<string>("");
   const [isDeletingModelId, setIsDeletingModelId] = useState<string | null>(
     null
   );
+  const [customModelLabel, setCustomModelLabel] = useState("");
+  const [customModelUrl, setCustomModelUrl] = useState("");
+  const [isAddingModel, setIsAddingModel] = useState(false);
+  const [isAddingBatchFiles, setIsAddingBatchFiles] = useState(false);
+  // Chunk count and, with VAD, the span of speech the file job covers
+  const [chunkText, setChunkText] = useState("");
+  // Segments of a file job's finished chunks while it runs
+  const [streamingSegments, setStreamingSegments] = useState<
+    TranscriptSegment[]
+  >([]);
+  // File jobs left unfinished by a crash or an error, read once at launch
+  const [interruptedJobs, setInterruptedJobs] = useState<LongformJob[]>(() =>
+    listLongformJobs(getAppDirectory())
+  );
+  // Language chosen for each model, keyed by model ID
+  const [languagePreferences, setLanguagePreferences] = useState<
+    Record<string, string>
+  >({});
+  const [fileDetection, setFileDetection] = useState<LanguageDetection | null>(
+    null
+  );
+  const [translateEnabled, setTranslateEnabled] = useState(false);
+  const [fileTask, setFileTask] = useState<TranscriptTask>("transcription");
+  const [liveTask, setLiveTask] = useState<TranscriptTask>("transcription");
+  // Why the last live session ended if the user didn't stop it
+  const [liveStopNotice, setLiveStopNotice] = useState("");
+  const [screen, setScreen] = useState<
+    | "home"
+    | "history"
+    | "benchmark"
+    | "evaluation"
+    | "vocabulary"
+    | "settings"
+    | "batch"
+  >("home");
+  // Model to load again once the benchmark has released everything
+  const benchmarkRestoreModelIdRef = useRef<string | null>(null);
+  // whisper.rn reports file progress as 0-100
+  const [transcriptionProgress, setTranscriptionProgress] = useState(0);
+  // True while a new file is converted and planned, before any chunk runs
+  const [isPreparingAudio, setIsPreparingAudio] = useState(false);
+  const [isCancellingTranscription, setIsCancellingTranscription] =
+    useState(false);
+  const transcribeStopRef = useRef<(() => Promise<void>) | null>(null);
+  // Latest results in exportable form, kept even if saving to history failed
+  const [fileTranscript, setFileTranscript] = useState<CardTranscript | null>(
+    null
+  );
+  const [liveTranscript, setLiveTranscript] = useState<CardTranscript | null>(
+    null
+  );
+  // Settings the running live session started with, used when it is saved
+  const liveSessionRef = useRef<{
+    modelId: string;
+    language: string;
+    task: TranscriptTask;
+    speakerTurns: boolean;
+    // Vocabulary terms the final transcript is corrected towards
+    correctionTerms: string[];
+  } | null>(null);
+
+  const {
+    transcripts,
+    addTranscript,
+    renameTranscript,
+    renameTranscriptSpeaker,
+    removeTranscript,
+  } = useTranscriptHistory();
+
+  const {
+    vocabulary,
+    selectedList: selectedVocabulary,
+    vocabularyPrompt,
+    saveVocabularyList,
+    deleteVocabularyList,
+    selectVocabularyList,
+    setCorrectSpellings,
+  } = useVocabulary();
+
+  const {
+    vadSettings,
+    getSettingsForModel,
+    updateModelSettings,
+    applyPreset,
+    resetModelSettings,
+    updateVadSettings,
+    saveLiveAudio,
+    setSaveLiveAudio,
+  } = useTranscriptionSettings();
 
   const {
     whisperContext,
     vadContext,
     isInitializingModel,
-    isDownloading,
-    downloadProgress,
+    downloads,
     currentModelId,
+    warmModelIds,
+    availableModels,
     modelFiles,
+    quarantinedModels,
     initializeWhisperModel,
+    initializeVadModel,
     resetWhisperContext,
     getCurrentModel,
     getDownloadProgress,
     getModelById,
     deleteModel,
-  } = useWhisperModels();
+    unloadModel,
+    isModelDownloading,
+    pauseDownload,
+    resumeDownload,
+    cancelDownload,
+    registerCustomModel,
+    importModelFile,
+    removeCustomModel,
+  } = useWhisperModels({ maxConcurrentDownloads: MAX_CONCURRENT_DOWNLOADS });
+
+  const {
+    state: liveState,
+    isActive: isRealtimeActive,
+    text: realtimeResult,
+    detection: liveDetection,
+    start: startLiveSession,
+    stop: stopLiveSession,
+    reset: resetLiveSession,
+  } = useRealtimeTranscription({
+    whisperContext,
+    onEvent: (event) => handleLiveEvent(event),
+  });
+
+  const {
+    items: batchItems,
+    isRunning: isBatchRunning,
+    addItems: addBatchItems,
+    moveItem: moveBatchItem,
+    cancelItem: cancelBatchItem,
+    retryItem: retryBatchItem,
+    removeItem: removeBatchItem,
+    clearFinished: clearFinishedBatchItems,
+  } = useBatchTranscription({
+    transcribe: (item, controls) => transcribeBatchItem(item, controls),
+    // The context runs one job at a time; benchmark and accuracy use it too
+    paused:
+      !whisperContext ||
+      isTranscribing ||
+      isRealtimeActive ||
+      screen === "benchmark" ||
+      screen === "evaluation",
+  });
+  // Single files and batch items share the context
+  const isFileBusy = isTranscribing || isBatchRunning;
+
+  const currentModel = getCurrentModel();
+  const languageOptions = getLanguageOptions(currentModel);
+  const selectedLanguage = resolveLanguage(
+    currentModel,
+    currentModel ? languagePreferences[currentModel.id] : undefined
+  );
+  // The toggle stays on across model switches (not restarts), but
+  // English-only models never translate
+  const shouldTranslate = translateEnabled && canTranslate(currentModel);
+  // tdrz models mark speaker turns, which split results into speaker blocks
+  const speakerTurns = supportsSpeakerTurns(currentModel);
+  const modelSettings = getSettingsForModel(currentModel);
+  const decodingOptions = getDecodingOptions(modelSettings.settings);
 
   useEffect(() => {
     // Initialize with tiny model by default
     initializeModel();
+    setLanguagePreferences(readLanguagePreferences(getAppDirectory()));
   }, []);
 
+  const handleSelectLanguage = (language: string) => {
+    if (!currentModel) return;
+    const next = { ...languagePreferences, [currentModel.id]: language };
+    setLanguagePreferences(next);
+    writeLanguagePreferences(getAppDirectory(), next);
+  };
+
   const initializeModel = async (modelId: string = "base") => {
     try {
-      await initializeWhisperModel(modelId, { initVad: false });
+      await initializeWhisperModel(modelId, {
+        initVad: vadSettings.enabled,
+      });
     } catch (error) {
       console.error("Failed to initialize model:", error);
       setError(`Failed to initialize model: ${error}`);
     }
   };
 
-  const ensureMicrophonePermission = async (): Promise<boolean> => {
-    if (Platform.OS === "web") {
-      Alert.alert(
-        "Unsupported Platform",
-        "Real-time transcription is not available on the web."
-      );
-      return false;
-    }
-
-    const getPermissionText = (blocked: boolean) =>
-      blocked
-        ? Platform.OS === "android"
-          ? "Please enable microphone access in Android Settings to use real-time transcription."
-          : "Please enable microphone access in iOS Settings to use real-time transcription."
-        : "Microphone permission is required for real-time transcription.";
-
-    try {
-      let permissionStatus = await getRecordingPermissionsAsync();
-
-      if (permissionStatus.granted) {
-        return true;
-      }
-
-      if (!permissionStatus.canAskAgain) {
-        Alert.alert("Microphone Permission", getPermissionText(true));
-        console.warn("Microphone permission permanently denied.");
-        return false;
-      }
-
-      permissionStatus = await requestRecordingPermissionsAsync();
-
-      if (permissionStatus.granted) {
-        return true;
-      }
-
-      const blocked = !permissionStatus.canAskAgain;
-      Alert.alert("Microphone Permission", getPermissionText(blocked));
-      console.warn("Microphone permission not granted:", permissionStatus);
-      return false;
-    } catch (err) {
-      console.error("Failed to verify microphone permission:", err);
-      Alert.alert(
-        "Microphone Permission",
-        "Unable to verify microphone permission. Please try again."
-      );
-      return false;
-    }
-  };
-
   const formatBytes = (bytes: number): string => {
     if (!bytes) return "0 B";
     const units = ["B", "KB", "MB", "GB", "TB"];
@@ -123,8 +367,45 @@ export default function App() {
     return `${scaled.toFixed(index === 0 ? 0 : 1)} ${units[index]}`;
   };
 
+  const handlePauseDownload = async (modelId: string) => {
+    try {
+      await pauseDownload(modelId);
+    } catch (err) {
+      const message = `Failed to pause download: ${err}`;
+      console.error(message);
+      Alert.alert("Download Error", message);
+    }
+  };
+
+  const handleResumeDownload = async (modelId: string) => {
+    try {
+      await resumeDownload(modelId);
+    } catch (err) {
+      const message = `Failed to download model: ${err}`;
+      console.error(message);
+      Alert.alert("Download Error", message);
+    }
+  };
+
+  const handleCancelDownload = (modelId: string) => {
+    const modelLabel = getModelById(modelId)?.label || modelId;
+
+    Alert.alert(
+      "Cancel Download",
+      `Stop downloading ${modelLabel} and discard the partial file?`,
+      [
+        { text: "Keep", style: "cancel" },
+        {
+          text: "Discard",
+          style: "destructive",
+          onPress: () => cancelDownload(modelId),
+        },
+      ]
+    );
+  };
+
   const handleDeleteModel = (modelId: string) => {
-    if (isRealtimeActive || isTranscribing) {
+    if (isRealtimeActive || isFileBusy) {
       Alert.alert(
         "Busy",
         "Please stop any active transcription before deleting models."
@@ -132,11 +413,15 @@ export default function App() {
       return;
     }
 
-    const modelLabel = getModelById(modelId)?.label || modelId;
+    const model = getModelById(modelId);
+    const modelLabel = model?.label || modelId;
+    const isCustom = model?.source === "custom";
 
     Alert.alert(
       "Delete Model",
-      `Remove ${modelLabel} from this device? You can download it again later.`,
+      isCustom
+        ? `Remove ${modelLabel} from this device and forget it?`
+        : `Remove ${modelLabel} from this device? You can download it again later.`,
       [
         { text: "Cancel", style: "cancel" },
         {
@@ -145,9 +430,10 @@ export default function App() {
           onPress: async () => {
             setIsDeletingModelId(modelId);
             try {
-              await deleteModel(modelId);
-              setRealtimeTranscriber(null);
-              setRealtimeResult("");
+              await (isCustom
+                ? removeCustomModel(modelId)
+                : deleteModel(modelId));
+              resetLiveSession();
               setRealtimeFinalResult("");
             } catch (err) {
               const message = `Failed to delete model: ${err}`;
@@ -162,7 +448,130 @@ export default function App() {
     );
   };
 
-  const transcribeAudio = async () => {
+  const handleUnloadModel = async (modelId: string) => {
+    if (modelId === currentModelId && (isRealtimeActive || isFileBusy)) {
+      Alert.alert(
+        "Busy",
+        "Please stop any active transcription before unloading the model."
+      );
+      return;
+    }
+
+    try {
+      await unloadModel(modelId);
+    } catch (err) {
+      console.error("Failed to unload model:", err);
+      Alert.alert("Unload Error", `Failed to unload model: ${err}`);
+    }
+  };
+
+  const handleToggleVad = async () => {
+    const enabled = !vadSettings.enabled;
+    updateVadSettings((prev) => ({ ...prev, enabled }));
+    try {
+      if (enabled) {
+        await initializeVadModel();
+      } else {
+        await unloadModel(VAD_MODEL.id);
+      }
+    } catch (err) {
+      console.error("Failed to toggle VAD:", err);
+      setError(`Failed to initialize VAD: ${err}`);
+    }
+  };
+
+  const adjustVadSetting = (key: NumericVadSetting, delta: number) => {
+    updateVadSettings((prev) => ({
+      ...prev,
+      // Round away floating point drift from repeated 0.05 steps
+      [key]: Math.round((prev[key] + delta) * 100) / 100,
+    }));
+  };
+
+  const handleAddCustomModel = async () => {
+    setIsAddingModel(true);
+    try {
+      const model = await registerCustomModel({
+        label: customModelLabel,
+        url: customModelUrl,
+      });
+      setCustomModelLabel("");
+      setCustomModelUrl("");
+      console.log(`Added custom model ${model.id}`);
+    } catch (err) {
+      const message = `Failed to add model: ${err}`;
+      console.error(message);
+      Alert.alert("Custom Model", message);
+    } finally {
+      setIsAddingModel(false);
+    }
+  };
+
+  const handleImportModelFile = async () => {
+    setIsAddingModel(true);
+    try {
+      const model = await importModelFile();
+      if (model) console.log(`Imported custom model ${model.id}`);
+    } catch (err) {
+      const message = `Failed to import model: ${err}`;
+      console.error(message);
+      Alert.alert("Custom Model", message);
+    } finally {
+      setIsAddingModel(false);
+    }
+  };
+
+  // Turns a finished job into a history entry: vocabulary fixes, language and speaker turns
+  const buildFileEntry = async (context: WhisperContext, job: LongformJob) => {
+    const { options, segments } = job;
+    const correctionTerms = getCorrectionTerms(vocabulary);
+    const text = correctVocabularyTerms(
+      stripSpeakerTurns(job.text).trim(),
+      correctionTerms
+    );
+
+    // Each chunk detected its language; a single chunk gets extra windows
+    const detection =
+      options.language === AUTO_LANGUAGE
+        ? job.chunks.length > 1
+          ? tallyLanguages(job.languages)
+          : await detectFileLanguage(
+              context,
+              job.audioUri,
+              { language: job.languages[0] ?? "", segments },
+              options
+            )
+        : null;
+
+    const entry: NewTranscriptEntry = {
+      title: job.title,
+      source: "file",
+      modelId: job.modelId,
+      language:
+        detection?.language ??
+        job.languages[0] ??
+        options.language ??
+        AUTO_LANGUAGE,
+      detection,
+      task: job.task,
+      durationMs: getSegmentsDurationMs(segments),
+      text,
+      segments: correctSegmentTerms(
+        options.tdrzEnable ? splitSpeakerTurns(segments) : segments,
+        correctionTerms
+      ),
+      audioUri: job.sourceUri,
+    };
+    return { entry, detection };
+  };
+
+  // Runs a chunked job to the end, streaming each chunk's segments into the file card
+  const runFileJob = async (
+    getJob: (
+      onPrepareProgress: (progress: number) => void
+    ) => Promise<LongformJob | null>,
+    resumed = false
+  ) => {
     if (!whisperContext) {
       Alert.alert("Error", "Whisper not initialized");
       return;
@@ -171,173 +580,626 @@ export default function App() {
     try {
       setIsTranscribing(true);
       setTranscriptionResult("");
+      setChunkText("");
+      setStreamingSegments([]);
+      setFileDetection(null);
+      setFileTranscript(null);
+      setTranscriptionProgress(0);
       setError("");
 
-      console.log("Starting transcription...");
-
-      const expoAudioPath = new File(
-        Paths.document,
-        APP_DIRECTORY_NAME,
-        "jfk.wav"
-      );
-
-      // Download file if it doesn't exist
-      if (!expoAudioPath.exists) {
-        console.log("Downloading JFK sample...");
-        const url =
-          "https://github.com/ggerganov/whisper.cpp/raw/master/samples/jfk.wav";
-
-        // create directory
-        const destination = new Directory(Paths.document, APP_DIRECTORY_NAME);
-        destination.create({ intermediates: true });
-
-        // download
-        await File.downloadFileAsync(url, expoAudioPath);
-        console.log("download complete (jfk.wav) file");
+      setIsPreparingAudio(true);
+      const job = await getJob(setTranscriptionProgress);
+      setIsPreparingAudio(false);
+      setTranscriptionProgress(0);
+      if (!job) {
+        setTranscriptionResult("No speech detected");
+        return;
+      }
+      setFileTask(job.task);
+      setChunkText(formatChunks(job));
+      if (resumed) {
+        setTranscriptionResult(stripSpeakerTurns(job.text).trim());
+        setStreamingSegments(getDisplaySegments(job.segments));
       }
+      console.log(
+        `${resumed ? "Resuming" : "Starting"} transcription of ${job.title}...`
+      );
 
-      // Transcribe the audio
-      const options = { language: "en" };
-      const { promise } = whisperContext.transcribe(expoAudioPath.uri, options);
+      const { stop, promise } = runLongformJob(
+        getAppDirectory(),
+        whisperContext,
+        job,
+        {
+          onProgress: setTranscriptionProgress,
+          onChunk: (current) => {
+            setTranscriptionResult(stripSpeakerTurns(current.text).trim());
+            setStreamingSegments(getDisplaySegments(current.segments));
+            setChunkText(formatChunks(current));
+          },
+        }
+      );
+      transcribeStopRef.current = stop;
 
       const startTime = Date.now();
-      const { result } = await promise;
+      const { job: finished, isAborted } = await promise;
       const endTime = Date.now();
 
+      if (isAborted) {
+        console.log("Transcription cancelled");
+        deleteLongformJob(getAppDirectory(), finished.id);
+        setTranscriptionResult("Transcription cancelled");
+        return;
+      }
+
       console.log(`Transcription completed in ${endTime - startTime}ms`);
-      console.log("Result:", result);
+      console.log("Result:", finished.text);
 
-      setTranscriptionResult(result || "No transcription result");
+      const { entry: fileEntry, detection } = await buildFileEntry(
+        whisperContext,
+        finished
+      );
+      setTranscriptionResult(fileEntry.text || "No transcription result");
+      setFileDetection(detection);
+      setFileTranscript(
+        addTranscript(fileEntry) ?? { ...fileEntry, createdAt: Date.now() }
+      );
+      deleteLongformJob(getAppDirectory(), finished.id);
     } catch (err) {
       const errorMessage = `Transcription failed: ${err}`;
       console.error(errorMessage);
       setError(errorMessage);
       Alert.alert("Transcription Error", errorMessage);
     } finally {
+      transcribeStopRef.current = null;
+      setStreamingSegments([]);
+      setIsPreparingAudio(false);
       setIsTranscribing(false);
+      setIsCancellingTranscription(false);
+      // Jobs that failed part way stay on disk and can be resumed
+      setInterruptedJobs(listLongformJobs(getAppDirectory()));
     }
   };
 
-  const startRealtimeTranscription = async () => {
-    if (!whisperContext) {
-      Alert.alert("Error", "Whisper not initialized");
-      return;
-    }
+  // A new job for `audioFile` with the current model, language and settings
+  const createFileJob = (
+    audioFile: File,
+    title: string,
+    onPrepareProgress?: (progress: number) => void
+  ) =>
+    createLongformJob(
+      getAppDirectory(),
+      {
+        title,
+        source: audioFile,
+        modelId: currentModelId ?? "unknown",
+        task: shouldTranslate ? "translation" : "transcription",
+        options: {
+          ...decodingOptions,
+          language: selectedLanguage,
+          translate: shouldTranslate,
+          tdrzEnable: speakerTurns,
+          prompt: vocabularyPrompt.prompt || undefined,
+        },
+        // Cuts between speech and skips silence so Whisper doesn't hallucinate over it
+        vad:
+          vadSettings.enabled && vadContext
+            ? { context: vadContext, options: getVadOptions(vadSettings) }
+            : null,
+      },
+      { onProgress: onPrepareProgress }
+    );
 
-    try {
-      const hasMicPermission = await ensureMicrophonePermission();
-      if (!hasMicPermission) {
-        setError("Real-time transcription requires microphone access.");
-        return;
-      }
+  const transcribeAudio = (audioFile: File, title: string) =>
+    runFileJob((onPrepareProgress) =>
+      createFileJob(audioFile, title, onPrepareProgress)
+    );
 
-      setIsRealtimeActive(true);
-      setRealtimeResult("");
-      setError("");
+  const resumeFileJob = (job: LongformJob) => runFileJob(async () => job, true);
 
-      console.log("Starting real-time transcription...");
+  // Batch items run the same jobs as single files, without the file card
+  const transcribeBatchItem: BatchTranscribe = async (item, controls) => {
+    if (!whisperContext) throw new Error("Whisper not initialized");
+    const appDirectory = getAppDirectory();
+    let checkpoint = item.jobId
+      ? readLongformJob(appDirectory, item.jobId)
+      : null;
+    // Chunks from two models don't belong in one transcript, so a checkpoint
+    // made with another model starts over with the current one
+    if (checkpoint && checkpoint.modelId !== currentModelId) {
+      console.log(
+        `Batch: restarting ${item.title}, its checkpoint used ${checkpoint.modelId}`
+      );
+      deleteLongformJob(appDirectory, checkpoint.id);
+      checkpoint = null;
+    }
+    const job =
+      checkpoint ??
+      (await createFileJob(
+        new File(item.audioUri),
+        item.title,
+        controls.onPrepareProgress
+      ));
+    if (!job) throw new Error("No speech detected");
+    controls.onJob(job.id);
+    if (controls.isCancelled()) {
+      deleteLongformJob(appDirectory, job.id);
+      return { isAborted: true };
+    }
 
-      // Use the built-in transcribeRealtime method from whisper.rn
-      const realtimeOptions: TranscribeRealtimeOptions = {
-        language: "en",
-        // Keep the session alive well past the default 30s ceiling so we only stop on user action
-        realtimeAudioSec: 300,
-        realtimeAudioSliceSec: 20,
-        realtimeAudioMinSec: 2,
-        audioSessionOnStartIos: {
-          category: "PlayAndRecord" as any,
-          options: ["MixWithOthers" as any],
-          mode: "Default" as any,
-        },
-        audioSessionOnStopIos: "restore" as any,
-      };
+    const { stop, promise } = runLongformJob(
+      appDirectory,
+      whisperContext,
+      job,
+      { onProgress: controls.onProgress }
+    );
+    controls.setStop(stop);
+    const { job: finished, isAborted } = await promise;
+    if (isAborted) {
+      deleteLongformJob(appDirectory, finished.id);
+      return { isAborted: true };
+    }
 
-      const { stop, subscribe } = await whisperContext.transcribeRealtime(
-        realtimeOptions
-      );
+    const { entry } = await buildFileEntry(whisperContext, finished);
+    const saved = addTranscript(entry);
+    if (!saved) throw new Error("Couldn't save the transcript");
+    deleteLongformJob(appDirectory, finished.id);
+    return { isAborted: false, transcriptId: saved.id };
+  };
 
-      // Subscribe to transcription events
-      subscribe((event: any) => {
-        const { isCapturing, data, processTime, recordingTime } = event;
+  const addBatchFile = async () => {
+    setIsAddingBatchFiles(true);
+    try {
+      const imported = await importAudioFile();
+      if (!imported) return;
+      addBatchItems([
+        { title: imported.originalName, audioUri: imported.file.uri },
+      ]);
+    } catch (err) {
+      const message = `Failed to import audio: ${err}`;
+      console.error(message);
+      Alert.alert("Batch", message);
+    } finally {
+      setIsAddingBatchFiles(false);
+    }
+  };
 
-        console.log(
-          `Realtime transcribing: ${isCapturing ? "ON" : "OFF"}\n` +
-            `Result: ${data?.result || "No result"}\n` +
-            `Process time: ${processTime}ms\n` +
-            `Recording time: ${recordingTime}ms`
+  const addBatchFolder = async () => {
+    setIsAddingBatchFiles(true);
+    try {
+      const folder = await importAudioFolder();
+      if (!folder) return;
+      const { imported, skipped } = folder;
+      // Only WAV can be transcribed, so other audio is named before anything runs
+      const skippedText =
+        skipped.length > 0
+          ? `Skipped ${skipped.length} file${
+              skipped.length === 1 ? "" : "s"
+            } that aren't WAV: ${skipped.join(", ")}`
+          : "";
+      if (imported.length === 0) {
+        Alert.alert(
+          "Batch",
+          skippedText || "No WAV files were found in that folder."
         );
+        return;
+      }
+      if (skippedText) Alert.alert("Batch", skippedText);
+      addBatchItems(
+        imported.map(({ file, originalName }) => ({
+          title: originalName,
+          audioUri: file.uri,
+        }))
+      );
+    } catch (err) {
+      const message = `Failed to import folder: ${err}`;
+      console.error(message);
+      Alert.alert("Batch", message);
+    } finally {
+      setIsAddingBatchFiles(false);
+    }
+  };
+
+  const discardFileJob = (job: LongformJob) => {
+    deleteLongformJob(getAppDirectory(), job.id);
+    setInterruptedJobs((prev) => prev.filter((entry) => entry.id !== job.id));
+  };
+
+  const transcribeSample = async () => {
+    try {
+      const sample = await getSampleAudioFile();
+      await transcribeAudio(sample, sample.name);
+    } catch (err) {
+      console.error("Failed to load sample audio:", err);
+      setError(`Failed to load sample audio: ${err}`);
+    }
+  };
 
-        if (data?.result) {
-          const currentResult = data.result.trim();
+  const pickAndTranscribeAudio = async () => {
+    try {
+      const imported = await importAudioFile();
+      if (!imported) return;
+      await transcribeAudio(imported.file, imported.originalName);
+    } catch (err) {
+      const message = `Failed to import audio: ${err}`;
+      console.error(message);
+      Alert.alert("Audio File", message);
+    }
+  };
 
-          // Always update the display - this ensures we never miss updates
-          setRealtimeResult(currentResult);
+  // Runs a saved session's audio through the current model as a new file transcript
+  const transcribeAgain = (entry: TranscriptEntry) => {
+    if (!entry.audioUri) return;
+    setScreen("home");
+    transcribeAudio(new File(entry.audioUri), entry.title);
+  };
 
-          // Debug logging to help track what's happening
-          console.log("📝 Real-time update:", {
-            isCapturing,
-            length: currentResult.length,
-            lastWords: currentResult.split(" ").slice(-5).join(" "), // Last 5 words
-            totalWords: currentResult.split(" ").length,
-          });
-        }
+  const cancelTranscription = async () => {
+    const stop = transcribeStopRef.current;
+    if (!stop) return;
+    setIsCancellingTranscription(true);
+    try {
+      await stop();
+    } catch (err) {
+      console.warn("Failed to stop transcription:", err);
+      setIsCancellingTranscription(false);
+    }
+  };
 
-        if (!isCapturing) {
-          console.log("Speech segment finished, but continuing to listen...");
-          // Don't stop the session - just log that this speech segment ended
-          // The transcription will continue listening for more speech
-        }
-      });
+  const startRealtimeTranscription = async () => {
+    if (!whisperContext) {
+      Alert.alert("Error", "Whisper not initialized");
+      return;
+    }
 
-      // Store the stop function
-      setRealtimeTranscriber({ stop });
+    const task: TranscriptTask = shouldTranslate
+      ? "translation"
+      : "transcription";
+    setLiveTranscript(null);
+    setLiveTask(task);
+    setLiveStopNotice("");
+    setError("");
+    liveSessionRef.current = {
+      modelId: currentModelId ?? "unknown",
+      language: selectedLanguage,
+      task,
+      speakerTurns,
+      correctionTerms: getCorrectionTerms(vocabulary),
+    };
+
+    try {
+      console.log("Starting real-time transcription...");
+      const started = await startLiveSession(
+        {
+          ...decodingOptions,
+          language: selectedLanguage,
+          translate: shouldTranslate,
+          tdrzEnable: speakerTurns,
+          prompt: vocabularyPrompt.prompt || undefined,
+          ...getRealtimeCaptureOptions(modelSettings.settings),
+          // Slices below the live VAD threshold are never sent to Whisper
+          ...getRealtimeVadOptions(vadSettings),
+        },
+        { recordAudio: saveLiveAudio }
+      );
+      if (!started) {
+        setError("Real-time transcription requires microphone access.");
+      }
     } catch (err) {
       const errorMessage = `Real-time transcription failed: ${err}`;
       console.error(errorMessage);
       setError(errorMessage);
       Alert.alert("Real-time Error", errorMessage);
-      setIsRealtimeActive(false);
     }
   };
 
-  const stopRealtimeTranscription = async () => {
-    try {
-      if (realtimeTranscriber?.stop) {
-        await realtimeTranscriber.stop();
-        setRealtimeTranscriber(null);
-      }
+  // Saves the session transcript; runs on user stop and when capture ends on its own
+  const finishLiveSession = (
+    final: Extract<RealtimeTranscriptionEvent, { type: "final" }>
+  ) => {
+    const session = liveSessionRef.current;
+    liveSessionRef.current = null;
+    if (final.reason === "error") {
+      setLiveStopNotice(`Live session stopped: ${final.message}`);
+    }
+    const finalTranscript = correctVocabularyTerms(
+      final.text,
+      session?.correctionTerms ?? []
+    );
+    if (finalTranscript) {
+      setRealtimeFinalResult(finalTranscript);
+      console.log("Final real-time transcript:", finalTranscript);
+    }
 
-      // Capture the final result before clearing
-      const finalTranscript = realtimeResult.trim();
-      if (finalTranscript) {
-        setRealtimeFinalResult(finalTranscript);
-        console.log("Final real-time transcript:", finalTranscript);
-      }
+    // Audio without a transcript to link it to isn't kept
+    if (final.audioUri && !(session && finalTranscript)) {
+      deleteLiveRecording(final.audioUri);
+    }
 
-      setIsRealtimeActive(false);
-      console.log("Real-time transcription stopped");
+    if (session && finalTranscript) {
+      const liveEntry: NewTranscriptEntry = {
+        title: `Live session ${new Date().toLocaleString()}`,
+        source: "live",
+        modelId: session.modelId,
+        language: final.detection?.language ?? session.language,
+        detection: final.detection,
+        task: session.task,
+        durationMs: final.recordingTimeMs,
+        text: finalTranscript,
+        segments: correctSegmentTerms(
+          session.speakerTurns
+            ? splitSpeakerTurns(final.segments)
+            : final.segments,
+          session.correctionTerms
+        ),
+        audioUri: final.audioUri,
+      };
+      setLiveTranscript(
+        addTranscript(liveEntry) ?? { ...liveEntry, createdAt: Date.now() }
+      );
+    }
+  };
+
+  const handleLiveEvent = (event: RealtimeTranscriptionEvent) => {
+    if (event.type === "partial") {
+      console.log("📝 Real-time update:", {
+        length: event.text.length,
+        lastWords: event.text.split(" ").slice(-5).join(" "), // Last 5 words
+        recordingTimeMs: event.recordingTimeMs,
+      });
+    } else if (event.type === "final") {
+      finishLiveSession(event);
+    }
+  };
+
+  // Renames on the result cards also update the saved history entry
+  const handleRenameSpeaker = (
+    transcript: CardTranscript,
+    setTranscript: (
+      update: (prev: CardTranscript | null) => CardTranscript | null
+    ) => void,
+    speaker: number,
+    name: string
+  ) => {
+    setTranscript(
+      (prev) =>
+        prev && {
+          ...prev,
+          speakers: renameSpeaker(prev.speakers, speaker, name),
+        }
+    );
+    if (!transcript.id) return;
+    try {
+      renameTranscriptSpeaker(transcript.id, speaker, name);
     } catch (err) {
-      console.error("Error stopping real-time transcription:", err);
+      console.warn("Failed to save speaker name:", err);
     }
   };
 
-  const activeModelLabel = getCurrentModel()?.label || "Model";
-  const downloadPercentage =
-    getDownloadProgress(currentModelId || "base") ?? 0;
-  const whisperStatusText = isDownloading
-    ? `Downloading ${activeModelLabel} · ${(downloadPercentage * 100).toFixed(
-        0
-      )}%`
-    : isInitializingModel
+  const stopRealtimeTranscription = async () => {
+    await stopLiveSession();
+    console.log("Real-time transcription stopped");
+  };
+
+  const activeModelLabel = currentModel?.label || "Model";
+  const downloadEntries = Object.values(downloads)
+    .filter((entry) => entry.status !== "done")
+    .sort(compareDownloadEntries);
+  const inFlightCount = downloadEntries.filter(isDownloadInFlight).length;
+  const whisperStatusText = isInitializingModel
     ? "Initializing…"
     : whisperContext
     ? `Ready · ${activeModelLabel}`
+    : inFlightCount > 0
+    ? `Downloading ${inFlightCount} model${inFlightCount === 1 ? "" : "s"}`
     : "Not initialized";
-  const realtimeStatusText = isRealtimeActive ? "Listening" : "Idle";
-  const transcriptionStatusText = isTranscribing
-    ? "Processing sample…"
+  const realtimeStatusText =
+    liveState.status === "listening"
+      ? liveState.part > 1
+        ? `Listening · part ${liveState.part}`
+        : "Listening"
+      : LIVE_STATUS_LABELS[liveState.status];
+
+  const batchDoneCount = batchItems.filter(
+    (item) => item.status === "done"
+  ).length;
+  const transcriptionStatusText = isCancellingTranscription
+    ? "Cancelling…"
+    : isPreparingAudio
+    ? `Preparing audio ${Math.round(transcriptionProgress)}%`
+    : isTranscribing
+    ? `Transcribing ${Math.round(transcriptionProgress)}%`
+    : isBatchRunning
+    ? `Batch · ${batchDoneCount}/${batchItems.length} done`
     : "Idle";
+  // Jobs of failed batch items are resumed from the batch queue instead
+  const resumableJobs = interruptedJobs.filter(
+    (job) => !batchItems.some((item) => item.jobId === job.id)
+  );
   const storedModels = Object.entries(modelFiles);
+  // Quantized variants are listed under the model they were built from
+  const modelGroups = availableModels
+    .filter((model) => !model.baseModelId)
+    .map((model) => ({
+      model,
+      variants: availableModels.filter((m) => m.baseModelId === model.id),
+    }));
+
+  const renderModelChip = (
+    model: WhisperModel,
+    title: string,
+    isVariant = false
+  ) => {
+    const modelId = model.id;
+    const isActive = getCurrentModel()?.id === modelId;
+    const isBusy = isModelDownloading(modelId) || isInitializingModel;
+    const status = downloads[modelId]?.status;
+    const chipStatus =
+      status === "downloading"
+        ? `${(getDownloadProgress(modelId) * 100).toFixed(0)}%`
+        : status && status !== "done"
+        ? DOWNLOAD_STATUS_LABELS[status].toLowerCase()
+        : model.approxSizeMB
+        ? formatBytes(model.approxSizeMB * 1024 * 1024)
+        : null;
+    return (
+      <TouchableOpacity
+        key={modelId}
+        style={[
+          styles.modelChip,
+          isVariant && styles.variantChip,
+          isActive && styles.modelChipActive,
+          isBusy && styles.buttonDisabled,
+        ]}
+        onPress={() => initializeModel(modelId)}
+        disabled={isBusy}
+      >
+        <Text
+          style={[
+            styles.modelChipText,
+            isVariant && styles.variantChipText,
+            isActive && styles.modelChipTextActive,
+          ]}
+        >
+          {title}
+          {chipStatus ? ` · ${chipStatus}` : ""}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+  const failedModels = Object.entries(quarantinedModels);
+  const benchmarkModels = availableModels.flatMap((model) =>
+    modelFiles[model.id] ? [{ model, path: modelFiles[model.id].path }] : []
+  );
+
+  const prepareBenchmark = async () => {
+    benchmarkRestoreModelIdRef.current =
+      benchmarkRestoreModelIdRef.current ?? currentModelId;
+    await resetWhisperContext();
+  };
+
+  const closeBenchmark = () => {
+    setScreen("home");
+    const restoreModelId = benchmarkRestoreModelIdRef.current;
+    benchmarkRestoreModelIdRef.current = null;
+    if (restoreModelId) initializeModel(restoreModelId);
+  };
+
+  if (screen === "batch") {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar style="dark" />
+        <BatchScreen
+          items={batchItems}
+          pausedReason={
+            !whisperContext
+              ? "Load a model to start the queue."
+              : isTranscribing || isRealtimeActive
+              ? "Waiting for the current transcription to finish."
+              : undefined
+          }
+          isAdding={isAddingBatchFiles}
+          onAddFile={addBatchFile}
+          onAddFolder={addBatchFolder}
+          onMove={moveBatchItem}
+          onCancel={cancelBatchItem}
+          onRetry={retryBatchItem}
+          onRemove={removeBatchItem}
+          onClearFinished={clearFinishedBatchItems}
+          onClose={() => {
+            // Removed items may have deleted checkpoints listed as interrupted
+            setInterruptedJobs(listLongformJobs(getAppDirectory()));
+            setScreen("home");
+          }}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  if (screen === "history") {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar style="dark" />
+        <HistoryScreen
+          transcripts={transcripts}
+          getModelLabel={(modelId) => getModelById(modelId)?.label ?? modelId}
+          onRename={renameTranscript}
+          onRenameSpeaker={renameTranscriptSpeaker}
+          onDelete={removeTranscript}
+          transcribeAgainLabel={
+            whisperContext && !isFileBusy && !isRealtimeActive
+              ? activeModelLabel
+              : undefined
+          }
+          onTranscribeAgain={transcribeAgain}
+          onClose={() => setScreen("home")}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  if (screen === "benchmark") {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar style="dark" />
+        <BenchmarkScreen
+          models={benchmarkModels}
+          onBeforeRun={prepareBenchmark}
+          onClose={closeBenchmark}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  if (screen === "settings" && currentModel) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar style="dark" />
+        <SettingsScreen
+          model={currentModel}
+          modelSettings={modelSettings}
+          onChange={(changes) => updateModelSettings(currentModel, changes)}
+          onApplyPreset={(presetId) => applyPreset(currentModel, presetId)}
+          onReset={() => resetModelSettings(currentModel)}
+          onClose={() => setScreen("home")}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  if (screen === "vocabulary") {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar style="dark" />
+        <VocabularyScreen
+          vocabulary={vocabulary}
+          onSave={saveVocabularyList}
+          onDelete={deleteVocabularyList}
+          onSelect={selectVocabularyList}
+          onCorrectSpellingsChange={setCorrectSpellings}
+          onClose={() => setScreen("home")}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  if (screen === "evaluation") {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <StatusBar style="dark" />
+        <EvaluationScreen
+          whisperContext={whisperContext}
+          modelId={currentModelId}
+          transcribeOptions={{
+            ...decodingOptions,
+            language: selectedLanguage,
+            prompt: vocabularyPrompt.prompt || undefined,
+          }}
+          getModelLabel={(modelId) => getModelById(modelId)?.label ?? modelId}
+          onClose={() => setScreen("home")}
+        />
+      </SafeAreaView>
+    );
+  }
 
   return (
     <SafeAreaView style={styles.safeArea}>
@@ -351,6 +1213,65 @@ export default function App() {
           <Text style={styles.subtitle}>
             Minimal transcription playground for whisper.rn models.
           </Text>
+          <View style={styles.headerLinks}>
+            <TouchableOpacity onPress={() => setScreen("history")}>
+              <Text style={styles.link}>
+                History
+                {transcripts.length > 0 ? ` (${transcripts.length})` : ""}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setScreen("batch")}>
+              <Text style={styles.link}>
+                Batch
+                {batchItems.length > 0
+                  ? ` (${batchDoneCount}/${batchItems.length})`
+                  : ""}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setScreen("benchmark")}
+              disabled={isRealtimeActive || isFileBusy}
+            >
+              <Text
+                style={[
+                  styles.link,
+                  (isRealtimeActive || isFileBusy) && styles.deleteDisabled,
+                ]}
+              >
+                Benchmark
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setScreen("evaluation")}
+              disabled={!whisperContext || isRealtimeActive || isFileBusy}
+            >
+              <Text
+                style={[
+                  styles.link,
+                  (!whisperContext || isRealtimeActive || isFileBusy) &&
+                    styles.deleteDisabled,
+                ]}
+              >
+                Accuracy
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setScreen("vocabulary")}>
+              <Text style={styles.link}>
+                Vocabulary
+                {selectedVocabulary ? ` (${selectedVocabulary.name})` : ""}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setScreen("settings")}
+              disabled={!currentModel}
+            >
+              <Text
+                style={[styles.link, !currentModel && styles.deleteDisabled]}
+              >
+                Settings
+              </Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
         {error ? (
@@ -391,6 +1312,11 @@ export default function App() {
         <View style={[styles.card, isRealtimeActive && styles.liveCard]}>
           <View style={styles.cardHeader}>
             <Text style={styles.cardLabel}>Live transcription</Text>
+            {liveDetection ? (
+              <Text style={styles.detectionBadge}>
+                {formatDetection(liveDetection)}
+              </Text>
+            ) : null}
             {isRealtimeActive ? (
               <Text style={styles.liveBadge}>Live</Text>
             ) : null}
@@ -404,6 +1330,12 @@ export default function App() {
             {realtimeResult ||
               "Start a live session to see the transcript populate here in real time."}
           </Text>
+          {realtimeResult ? (
+            <Text style={styles.cardMeta}>{getTaskLabel(liveTask)}</Text>
+          ) : null}
+          {liveStopNotice ? (
+            <Text style={styles.liveStopNotice}>{liveStopNotice}</Text>
+          ) : null}
         </View>
 
         {realtimeFinalResult ? (
@@ -414,46 +1346,203 @@ export default function App() {
                 <Text style={styles.link}>Clear</Text>
               </TouchableOpacity>
             </View>
-            <Text style={styles.cardText}>{realtimeFinalResult}</Text>
+            {liveTranscript?.segments.length &&
+            (liveTranscript.audioUri ||
+              hasSpeakers(liveTranscript.segments)) ? (
+              <SegmentList
+                segments={liveTranscript.segments}
+                audioUri={liveTranscript.audioUri}
+                speakers={liveTranscript.speakers}
+                onRenameSpeaker={(speaker, name) =>
+                  handleRenameSpeaker(
+                    liveTranscript,
+                    setLiveTranscript,
+                    speaker,
+                    name
+                  )
+                }
+              />
+            ) : (
+              <Text style={styles.cardText}>{realtimeFinalResult}</Text>
+            )}
+            <Text style={styles.cardMeta}>{getTaskLabel(liveTask)}</Text>
+            {liveTranscript ? (
+              <ExportActions transcript={liveTranscript} />
+            ) : null}
           </View>
         ) : null}
 
         {transcriptionResult ? (
           <View style={styles.card}>
-            <Text style={styles.cardLabel}>File transcription</Text>
-            <Text style={styles.cardText}>{transcriptionResult}</Text>
+            <View style={styles.cardHeader}>
+              <Text style={styles.cardLabel}>File transcription</Text>
+              {fileDetection ? (
+                <Text style={styles.detectionBadge}>
+                  {formatDetection(fileDetection)}
+                </Text>
+              ) : null}
+            </View>
+            {fileTranscript?.segments.length ? (
+              <SegmentList
+                segments={fileTranscript.segments}
+                audioUri={fileTranscript.audioUri}
+                speakers={fileTranscript.speakers}
+                onRenameSpeaker={(speaker, name) =>
+                  handleRenameSpeaker(
+                    fileTranscript,
+                    setFileTranscript,
+                    speaker,
+                    name
+                  )
+                }
+              />
+            ) : streamingSegments.length ? (
+              <SegmentList segments={streamingSegments} />
+            ) : (
+              <Text style={styles.cardText}>{transcriptionResult}</Text>
+            )}
+            <Text style={styles.cardMeta}>
+              {getTaskLabel(fileTask)}
+              {chunkText ? ` · ${chunkText}` : ""}
+            </Text>
+            {fileTranscript ? (
+              <ExportActions transcript={fileTranscript} />
+            ) : null}
+          </View>
+        ) : null}
+
+        {resumableJobs.length > 0 && !isFileBusy ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>Interrupted transcriptions</Text>
+            {resumableJobs.map((job) => {
+              // Chunks already done were decoded with this model and settings
+              const canResume =
+                whisperContext !== null &&
+                currentModelId === job.modelId &&
+                !isRealtimeActive;
+              const modelLabel =
+                getModelById(job.modelId)?.label ?? job.modelId;
+              return (
+                <View key={job.id} style={styles.storageRow}>
+                  <View style={styles.storageMeta}>
+                    <Text style={styles.storageName} numberOfLines={1}>
+                      {job.title}
+                    </Text>
+                    <Text style={styles.storageDetails}>
+                      {`${Math.round(getJobProgress(job))}% · ${
+                        job.nextChunk
+                      }/${job.chunks.length} chunks · ${modelLabel}`}
+                    </Text>
+                    {currentModelId !== job.modelId ? (
+                      <Text style={styles.storagePath}>
+                        Load {modelLabel} to resume
+                      </Text>
+                    ) : null}
+                  </View>
+                  <View style={styles.downloadActions}>
+                    <TouchableOpacity
+                      onPress={() => resumeFileJob(job)}
+                      disabled={!canResume}
+                    >
+                      <Text
+                        style={[
+                          styles.link,
+                          !canResume && styles.deleteDisabled,
+                        ]}
+                      >
+                        Resume
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => discardFileJob(job)}>
+                      <Text style={styles.deleteLink}>Discard</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              );
+            })}
           </View>
         ) : null}
 
         <View style={styles.section}>
           <Text style={styles.sectionLabel}>Quick actions</Text>
+          {isTranscribing ? (
+            <View style={[styles.progressTrack, styles.transcriptionProgress]}>
+              <View
+                style={[
+                  styles.progressFill,
+                  { width: `${Math.round(transcriptionProgress)}%` },
+                ]}
+              />
+            </View>
+          ) : null}
           <View style={styles.buttonRow}>
-            <TouchableOpacity
-              style={[
-                styles.button,
-                styles.primaryButton,
-                (!whisperContext || isTranscribing) && styles.buttonDisabled,
-              ]}
-              onPress={transcribeAudio}
-              disabled={!whisperContext || isTranscribing}
-            >
-              <Text style={styles.primaryButtonText}>
-                {isTranscribing ? "Transcribing…" : "Transcribe sample"}
-              </Text>
-            </TouchableOpacity>
+            {isTranscribing ? (
+              <TouchableOpacity
+                style={[
+                  styles.button,
+                  styles.stopButton,
+                  (isCancellingTranscription || isPreparingAudio) &&
+                    styles.buttonDisabled,
+                ]}
+                onPress={cancelTranscription}
+                disabled={isCancellingTranscription || isPreparingAudio}
+              >
+                <Text style={styles.stopButtonText}>
+                  {isCancellingTranscription
+                    ? "Cancelling…"
+                    : isPreparingAudio
+                    ? `Preparing audio · ${Math.round(transcriptionProgress)}%`
+                    : `Cancel · ${Math.round(transcriptionProgress)}%`}
+                </Text>
+              </TouchableOpacity>
+            ) : (
+              <>
+                <TouchableOpacity
+                  style={[
+                    styles.button,
+                    styles.primaryButton,
+                    (!whisperContext || isBatchRunning) &&
+                      styles.buttonDisabled,
+                  ]}
+                  onPress={transcribeSample}
+                  disabled={!whisperContext || isBatchRunning}
+                >
+                  <Text style={styles.primaryButtonText}>
+                    Transcribe sample
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[
+                    styles.button,
+                    styles.secondaryButton,
+                    (!whisperContext || isBatchRunning) &&
+                      styles.buttonDisabled,
+                  ]}
+                  onPress={pickAndTranscribeAudio}
+                  disabled={!whisperContext || isBatchRunning}
+                >
+                  <Text style={styles.secondaryButtonText}>
+                    Transcribe a file…
+                  </Text>
+                </TouchableOpacity>
+              </>
+            )}
 
             <TouchableOpacity
               style={[
                 styles.button,
                 isRealtimeActive ? styles.stopButton : styles.secondaryButton,
-                !whisperContext && styles.buttonDisabled,
+                (!whisperContext || (!isRealtimeActive && isBatchRunning)) &&
+                  styles.buttonDisabled,
               ]}
               onPress={
                 isRealtimeActive
                   ? stopRealtimeTranscription
                   : startRealtimeTranscription
               }
-              disabled={!whisperContext}
+              disabled={
+                !whisperContext || (!isRealtimeActive && isBatchRunning)
+              }
             >
               <Text
                 style={
@@ -466,38 +1555,265 @@ export default function App() {
               </Text>
             </TouchableOpacity>
           </View>
+          <View style={styles.settingRow}>
+            <Text style={styles.settingLabel}>Save live session audio</Text>
+            <TouchableOpacity
+              onPress={() => setSaveLiveAudio(!saveLiveAudio)}
+              disabled={isRealtimeActive}
+            >
+              <Text
+                style={[styles.link, isRealtimeActive && styles.deleteDisabled]}
+              >
+                {saveLiveAudio ? "On" : "Off"}
+              </Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
-        <View style={styles.section}>
-          <Text style={styles.sectionLabel}>Models</Text>
-          <View style={styles.modelGrid}>
-            {["large-v3-turbo", "tiny", "base", "small"].map((modelId) => {
-              const isActive = getCurrentModel()?.id === modelId;
-              return (
+        {currentModel ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>Language</Text>
+            {currentModel.capabilities.multilingual ? (
+              <View style={styles.modelGrid}>
+                {languageOptions.map((language) => {
+                  const isSelected = language === selectedLanguage;
+                  return (
+                    <TouchableOpacity
+                      key={language}
+                      style={[
+                        styles.modelChip,
+                        isSelected && styles.modelChipActive,
+                        isRealtimeActive && styles.buttonDisabled,
+                      ]}
+                      onPress={() => handleSelectLanguage(language)}
+                      disabled={isRealtimeActive}
+                    >
+                      <Text
+                        style={[
+                          styles.modelChipText,
+                          isSelected && styles.modelChipTextActive,
+                        ]}
+                      >
+                        {getLanguageLabel(language)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            ) : null}
+            {canTranslate(currentModel) ? (
+              <View style={styles.settingRow}>
+                <Text style={styles.settingLabel}>Translate to English</Text>
                 <TouchableOpacity
-                  key={modelId}
-                  style={[
-                    styles.modelChip,
-                    isActive && styles.modelChipActive,
-                    (isDownloading || isInitializingModel) &&
-                      styles.buttonDisabled,
-                  ]}
-                  onPress={() => initializeModel(modelId)}
-                  disabled={isDownloading || isInitializingModel}
+                  onPress={() => setTranslateEnabled((prev) => !prev)}
+                  disabled={isRealtimeActive}
                 >
                   <Text
                     style={[
-                      styles.modelChipText,
-                      isActive && styles.modelChipTextActive,
+                      styles.link,
+                      isRealtimeActive && styles.deleteDisabled,
                     ]}
                   >
-                    {modelId}
+                    {translateEnabled ? "On" : "Off"}
                   </Text>
                 </TouchableOpacity>
+              </View>
+            ) : (
+              <Text style={styles.storageDetails}>
+                {currentModel.label} only transcribes English.
+              </Text>
+            )}
+          </View>
+        ) : null}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Voice activity</Text>
+          <View style={styles.storageRow}>
+            <View style={styles.storageMeta}>
+              <Text style={styles.storageName}>{VAD_MODEL.label}</Text>
+              <Text style={styles.storageDetails}>
+                {!vadSettings.enabled
+                  ? "Off · files and live slices are not gated"
+                  : vadContext
+                  ? "Ready · splits files on speech and gates live slices"
+                  : isModelDownloading(VAD_MODEL.id)
+                  ? `Downloading ${(
+                      getDownloadProgress(VAD_MODEL.id) * 100
+                    ).toFixed(0)}%`
+                  : "Not loaded"}
+              </Text>
+            </View>
+            <TouchableOpacity
+              onPress={handleToggleVad}
+              disabled={isRealtimeActive || isFileBusy}
+            >
+              <Text
+                style={[
+                  styles.link,
+                  (isRealtimeActive || isFileBusy) && styles.deleteDisabled,
+                ]}
+              >
+                {vadSettings.enabled ? "Turn off" : "Turn on"}
+              </Text>
+            </TouchableOpacity>
+          </View>
+          {vadSettings.enabled
+            ? VAD_SETTING_CONTROLS.map(({ key, label, step, unit }) => (
+                <View key={key} style={styles.settingRow}>
+                  <Text style={styles.settingLabel}>{label}</Text>
+                  <View style={styles.stepper}>
+                    <TouchableOpacity
+                      onPress={() => adjustVadSetting(key, -step)}
+                    >
+                      <Text style={styles.stepperButton}>−</Text>
+                    </TouchableOpacity>
+                    <Text style={styles.stepperValue}>
+                      {unit
+                        ? `${vadSettings[key]} ${unit}`
+                        : vadSettings[key].toFixed(2)}
+                    </Text>
+                    <TouchableOpacity
+                      onPress={() => adjustVadSetting(key, step)}
+                    >
+                      <Text style={styles.stepperButton}>+</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))
+            : null}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionLabel}>Models</Text>
+          {modelGroups.map(({ model, variants }) => (
+            <View key={model.id} style={styles.modelGroup}>
+              <View style={styles.modelGrid}>
+                {renderModelChip(model, model.id)}
+              </View>
+              {variants.length > 0 ? (
+                <View style={[styles.modelGrid, styles.variantGrid]}>
+                  {variants.map((variant) =>
+                    renderModelChip(
+                      variant,
+                      variant.quantization ?? variant.id,
+                      true
+                    )
+                  )}
+                </View>
+              ) : null}
+            </View>
+          ))}
+          <View style={styles.customModelForm}>
+            <TextInput
+              style={styles.textInput}
+              placeholder="Label (optional)"
+              placeholderTextColor="#8e8e93"
+              value={customModelLabel}
+              onChangeText={setCustomModelLabel}
+            />
+            <TextInput
+              style={styles.textInput}
+              placeholder="https://…/ggml-model.bin"
+              placeholderTextColor="#8e8e93"
+              value={customModelUrl}
+              onChangeText={setCustomModelUrl}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+            <View style={styles.customModelActions}>
+              <TouchableOpacity
+                onPress={handleAddCustomModel}
+                disabled={isAddingModel || !customModelUrl.trim()}
+              >
+                <Text
+                  style={[
+                    styles.link,
+                    (isAddingModel || !customModelUrl.trim()) &&
+                      styles.deleteDisabled,
+                  ]}
+                >
+                  Add from URL
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleImportModelFile}
+                disabled={isAddingModel}
+              >
+                <Text
+                  style={[styles.link, isAddingModel && styles.deleteDisabled]}
+                >
+                  Import .bin file
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+
+        {downloadEntries.length > 0 ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>Downloads</Text>
+            {downloadEntries.map((entry) => {
+              const { modelId, status } = entry;
+              const modelLabel = getModelById(modelId)?.label || modelId;
+              const percentage = (entry.progress * 100).toFixed(0);
+              const canPause = status === "queued" || status === "downloading";
+              const canResume = status === "paused" || status === "failed";
+
+              return (
+                <View key={modelId} style={styles.storageRow}>
+                  <View style={styles.storageMeta}>
+                    <Text style={styles.storageName}>{modelLabel}</Text>
+                    <Text style={styles.storageDetails}>
+                      {DOWNLOAD_STATUS_LABELS[status]}
+                      {status === "failed" ? "" : ` · ${percentage}%`}
+                    </Text>
+                    <View style={styles.progressTrack}>
+                      <View
+                        style={[
+                          styles.progressFill,
+                          status === "failed" && styles.progressFillFailed,
+                          { width: `${Math.round(entry.progress * 100)}%` },
+                        ]}
+                      />
+                    </View>
+                    {entry.error ? (
+                      <Text style={styles.storagePath} numberOfLines={2}>
+                        {entry.error}
+                      </Text>
+                    ) : null}
+                  </View>
+                  {status !== "verifying" ? (
+                    <View style={styles.downloadActions}>
+                      {canPause || canResume ? (
+                        <TouchableOpacity
+                          onPress={() =>
+                            canPause
+                              ? handlePauseDownload(modelId)
+                              : handleResumeDownload(modelId)
+                          }
+                        >
+                          <Text style={styles.link}>
+                            {canPause
+                              ? "Pause"
+                              : status === "failed"
+                              ? "Retry"
+                              : "Resume"}
+                          </Text>
+                        </TouchableOpacity>
+                      ) : null}
+                      <TouchableOpacity
+                        onPress={() => handleCancelDownload(modelId)}
+                      >
+                        <Text style={styles.deleteLink}>Cancel</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ) : null}
+                </View>
               );
             })}
           </View>
-        </View>
+        ) : null}
 
         {storedModels.length > 0 ? (
           <View style={styles.section}>
@@ -505,6 +1821,9 @@ export default function App() {
             {storedModels.map(([modelId, info]) => {
               const modelLabel = getModelById(modelId)?.label || modelId;
               const isCurrent = currentModelId === modelId;
+              const isWarm =
+                warmModelIds.includes(modelId) ||
+                (modelId === VAD_MODEL.id && vadContext !== null);
               const deleting = isDeletingModelId === modelId;
 
               return (
@@ -512,7 +1831,7 @@ export default function App() {
                   <View style={styles.storageMeta}>
                     <Text style={styles.storageName}>
                       {modelLabel}
-                      {isCurrent ? " · active" : ""}
+                      {isCurrent ? " · active" : isWarm ? " · warm" : ""}
                     </Text>
                     <Text style={styles.storageDetails}>
                       Size {formatBytes(info.size)}
@@ -525,18 +1844,59 @@ export default function App() {
                       {info.path}
                     </Text>
                   </View>
-                  <TouchableOpacity
-                    onPress={() => handleDeleteModel(modelId)}
-                    disabled={deleting}
-                  >
+                  <View style={styles.downloadActions}>
+                    {isWarm ? (
+                      <TouchableOpacity
+                        onPress={() => handleUnloadModel(modelId)}
+                        disabled={deleting}
+                      >
+                        <Text style={styles.deleteLink}>Unload</Text>
+                      </TouchableOpacity>
+                    ) : null}
+                    <TouchableOpacity
+                      onPress={() => handleDeleteModel(modelId)}
+                      disabled={deleting}
+                    >
+                      <Text
+                        style={[
+                          styles.deleteLink,
+                          deleting && styles.deleteDisabled,
+                        ]}
+                      >
+                        {deleting ? "Deleting…" : "Remove"}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+        ) : null}
+
+        {failedModels.length > 0 ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>Failed verification</Text>
+            {failedModels.map(([modelId, info]) => {
+              const modelLabel = getModelById(modelId)?.label || modelId;
+
+              return (
+                <View key={modelId} style={styles.storageRow}>
+                  <View style={styles.storageMeta}>
+                    <Text style={styles.storageName}>{modelLabel}</Text>
+                    <Text style={styles.storageDetails}>{info.reason}</Text>
                     <Text
-                      style={[
-                        styles.deleteLink,
-                        deleting && styles.deleteDisabled,
-                      ]}
+                      style={styles.storagePath}
+                      numberOfLines={1}
+                      ellipsizeMode="middle"
                     >
-                      {deleting ? "Deleting…" : "Remove"}
+                      {info.path}
                     </Text>
+                  </View>
+                  <TouchableOpacity
+                    onPress={() => initializeModel(modelId)}
+                    disabled={isModelDownloading(modelId)}
+                  >
+                    <Text style={styles.link}>Re-download</Text>
                   </TouchableOpacity>
                 </View>
               );
@@ -576,6 +1936,13 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     color: "#555555",
   },
+  headerLinks: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    columnGap: 16,
+    rowGap: 8,
+    marginTop: 12,
+  },
   section: {
     marginBottom: 28,
   },
@@ -651,6 +2018,16 @@ const styles = StyleSheet.create({
     lineHeight: 24,
     color: "#111111",
   },
+  cardMeta: {
+    fontSize: 12,
+    color: "#8e8e93",
+    marginTop: 8,
+  },
+  liveStopNotice: {
+    fontSize: 12,
+    color: "#b3261e",
+    marginTop: 8,
+  },
   placeholderText: {
     color: "#8e8e93",
   },
@@ -659,6 +2036,10 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: "600",
   },
+  detectionBadge: {
+    color: "#666666",
+    fontSize: 12,
+  },
   errorCard: {
     borderColor: "#ff3b30",
     backgroundColor: "#fff5f4",
@@ -730,6 +2111,21 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     backgroundColor: "#ffffff",
   },
+  modelGroup: {
+    marginBottom: 4,
+  },
+  variantGrid: {
+    marginLeft: 12,
+  },
+  variantChip: {
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+    borderRadius: 14,
+  },
+  variantChipText: {
+    fontSize: 12,
+    fontWeight: "500",
+  },
   modelChipActive: {
     borderColor: ACCENT_COLOR,
     backgroundColor: "#f5f8ff",
@@ -742,6 +2138,23 @@ const styles = StyleSheet.create({
   modelChipTextActive: {
     color: ACCENT_COLOR,
   },
+  customModelForm: {
+    marginTop: 4,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "#d1d1d6",
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    fontSize: 14,
+    color: "#111111",
+    marginBottom: 10,
+  },
+  customModelActions: {
+    flexDirection: "row",
+    columnGap: 20,
+  },
   storageRow: {
     flexDirection: "row",
     alignItems: "flex-start",
@@ -772,6 +2185,27 @@ const styles = StyleSheet.create({
     fontSize: 11,
     color: "#8e8e93",
   },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: "#e5e5ea",
+    overflow: "hidden",
+    marginBottom: 4,
+  },
+  progressFill: {
+    height: 4,
+    backgroundColor: ACCENT_COLOR,
+  },
+  transcriptionProgress: {
+    marginBottom: 16,
+  },
+  progressFillFailed: {
+    backgroundColor: "#ff3b30",
+  },
+  downloadActions: {
+    flexDirection: "row",
+    columnGap: 16,
+  },
   deleteLink: {
     color: "#111111",
     fontSize: 12,
@@ -780,6 +2214,33 @@ const styles = StyleSheet.create({
   deleteDisabled: {
     opacity: 0.4,
   },
+  settingRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 8,
+  },
+  settingLabel: {
+    fontSize: 14,
+    color: "#111111",
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    columnGap: 12,
+  },
+  stepperButton: {
+    color: ACCENT_COLOR,
+    fontSize: 18,
+    fontWeight: "600",
+    paddingHorizontal: 6,
+  },
+  stepperValue: {
+    minWidth: 64,
+    textAlign: "center",
+    fontSize: 13,
+    color: "#333333",
+  },
   link: {
     color: ACCENT_COLOR,
     fontSize: 12,
@@ -0,0 +1,124 @@
+import React, { useState } from "react";
+import { StyleSheet, Text, View, TouchableOpacity, Alert } from "react-native";
+import { getAppDirectory } from "../lib/appFiles";
+import {
+  EXPORT_FORMATS,
+  shareTranscriptExport,
+  writeTranscriptExport,
+  type ExportableTranscript,
+  type ExportFormat,
+} from "../lib/transcriptExport";
+
+const ACCENT_COLOR = "#0A84FF";
+
+interface ExportActionsProps {
+  transcript: ExportableTranscript;
+}
+
+export default function ExportActions({ transcript }: ExportActionsProps) {
+  const [format, setFormat] = useState<ExportFormat>("srt");
+  const [isSharing, setIsSharing] = useState(false);
+
+  const handleSave = () => {
+    try {
+      const file = writeTranscriptExport(getAppDirectory(), transcript, format);
+      Alert.alert("Export", `Saved ${file.name}`);
+    } catch (err) {
+      console.error("Export failed:", err);
+      Alert.alert("Export Error", `Failed to export: ${err}`);
+    }
+  };
+
+  const handleShare = async () => {
+    setIsSharing(true);
+    try {
+      await shareTranscriptExport(getAppDirectory(), transcript, format);
+    } catch (err) {
+      console.error("Share failed:", err);
+      Alert.alert("Export Error", `Failed to share: ${err}`);
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.formats}>
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((option) => {
+          const isSelected = option === format;
+          return (
+            <TouchableOpacity
+              key={option}
+              style={[styles.formatChip, isSelected && styles.formatChipActive]}
+              onPress={() => setFormat(option)}
+            >
+              <Text
+                style={[
+                  styles.formatChipText,
+                  isSelected && styles.formatChipTextActive,
+                ]}
+              >
+                {EXPORT_FORMATS[option].label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <View style={styles.actions}>
+        <TouchableOpacity onPress={handleSave}>
+          <Text style={styles.link}>Save</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={handleShare} disabled={isSharing}>
+          <Text style={[styles.link, isSharing && styles.linkDisabled]}>
+            Share
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 12,
+  },
+  formats: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    columnGap: 6,
+  },
+  formatChip: {
+    borderWidth: 1,
+    borderColor: "#e5e5ea",
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  formatChipActive: {
+    borderColor: ACCENT_COLOR,
+    backgroundColor: "#f5f8ff",
+  },
+  formatChipText: {
+    fontSize: 11,
+    color: "#555555",
+  },
+  formatChipTextActive: {
+    color: ACCENT_COLOR,
+    fontWeight: "600",
+  },
+  actions: {
+    flexDirection: "row",
+    columnGap: 16,
+  },
+  link: {
+    color: ACCENT_COLOR,
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  linkDisabled: {
+    opacity: 0.4,
+  },
+});
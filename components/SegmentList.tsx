@@ -0,0 +1,205 @@
+import React, { useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  TextInput,
+} from "react-native";
+import { useAudioPlayer, useAudioPlayerStatus } from "expo-audio";
+import { getSpeakerName } from "../lib/speakers";
+import type { TranscriptSegment } from "../lib/transcriptStore";
+
+const ACCENT_COLOR = "#0A84FF";
+// Frequent enough for the highlight to follow short segments
+const PLAYBACK_UPDATE_INTERVAL_MS = 100;
+
+interface SegmentListProps {
+  segments: TranscriptSegment[];
+  // Without audio the segments are still listed, just not playable
+  audioUri?: string;
+  // Speaker names for segments from a tdrz model
+  speakers?: string[];
+  // Makes speaker names editable
+  onRenameSpeaker?: (speaker: number, name: string) => void;
+}
+
+// Segment times are centiseconds
+const formatSegmentTime = (centiseconds: number) => {
+  const totalSeconds = centiseconds / 100;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toFixed(1).padStart(4, "0");
+  return `${minutes}:${seconds}`;
+};
+
+export default function SegmentList({
+  segments,
+  audioUri,
+  speakers,
+  onRenameSpeaker,
+}: SegmentListProps) {
+  const [editingSpeaker, setEditingSpeaker] = useState<{
+    speaker: number;
+    name: string;
+  } | null>(null);
+  const player = useAudioPlayer(audioUri ? { uri: audioUri } : null, {
+    updateInterval: PLAYBACK_UPDATE_INTERVAL_MS,
+  });
+  const status = useAudioPlayerStatus(player);
+
+  const currentCs = status.currentTime * 100;
+  const activeIndex = status.playing
+    ? segments.findIndex(
+        (segment) => currentCs >= segment.t0 && currentCs < segment.t1
+      )
+    : -1;
+
+  const playSegment = async (segment: TranscriptSegment) => {
+    if (!audioUri) return;
+    try {
+      await player.seekTo(segment.t0 / 100);
+      player.play();
+    } catch (error) {
+      console.warn("Failed to play segment:", error);
+    }
+  };
+
+  const saveSpeakerName = () => {
+    if (!editingSpeaker || !onRenameSpeaker) return;
+    onRenameSpeaker(editingSpeaker.speaker, editingSpeaker.name);
+    setEditingSpeaker(null);
+  };
+
+  const renderSpeaker = (speaker: number, key: string) => {
+    const name = getSpeakerName(speakers, speaker);
+    if (editingSpeaker?.speaker === speaker) {
+      return (
+        <View key={key} style={styles.speakerRow}>
+          <TextInput
+            style={styles.speakerInput}
+            value={editingSpeaker.name}
+            onChangeText={(value) =>
+              setEditingSpeaker({ speaker, name: value })
+            }
+            placeholder={`Speaker ${speaker + 1}`}
+            placeholderTextColor="#8e8e93"
+            autoFocus
+            onSubmitEditing={saveSpeakerName}
+          />
+          <TouchableOpacity onPress={saveSpeakerName}>
+            <Text style={styles.link}>Save</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+    return (
+      <TouchableOpacity
+        key={key}
+        style={styles.speakerRow}
+        onPress={() => setEditingSpeaker({ speaker, name })}
+        disabled={!onRenameSpeaker}
+      >
+        <Text style={styles.speaker}>{name}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  if (!segments.some((segment) => segment.text.trim())) return null;
+
+  // Segments from the same speaker are grouped under one name
+  let previousSpeaker: number | undefined;
+
+  return (
+    <View style={styles.container}>
+      {segments.map((segment, index) => {
+        if (!segment.text.trim()) return null;
+        const showSpeaker =
+          segment.speaker !== undefined && segment.speaker !== previousSpeaker;
+        previousSpeaker = segment.speaker;
+        return (
+          <React.Fragment key={`${segment.t0}-${index}`}>
+            {showSpeaker
+              ? renderSpeaker(segment.speaker!, `speaker-${index}`)
+              : null}
+            <TouchableOpacity
+              style={[styles.segment, index === activeIndex && styles.active]}
+              onPress={() => playSegment(segment)}
+              disabled={!audioUri}
+            >
+              <Text style={styles.time}>
+                {formatSegmentTime(segment.t0)} –{" "}
+                {formatSegmentTime(segment.t1)}
+              </Text>
+              <Text style={styles.text}>{segment.text.trim()}</Text>
+            </TouchableOpacity>
+          </React.Fragment>
+        );
+      })}
+      {status.playing ? (
+        <TouchableOpacity onPress={() => player.pause()}>
+          <Text style={styles.link}>Pause</Text>
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+    rowGap: 4,
+  },
+  segment: {
+    flexDirection: "row",
+    columnGap: 10,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  active: {
+    backgroundColor: "#f5f8ff",
+  },
+  time: {
+    fontSize: 11,
+    color: "#8e8e93",
+    fontVariant: ["tabular-nums"],
+    paddingTop: 3,
+    minWidth: 76,
+  },
+  text: {
+    flex: 1,
+    fontSize: 15,
+    lineHeight: 22,
+    color: "#111111",
+  },
+  speakerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    columnGap: 12,
+    paddingHorizontal: 8,
+    marginTop: 8,
+  },
+  speaker: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: ACCENT_COLOR,
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+  },
+  speakerInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: "#d1d1d6",
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    fontSize: 13,
+    color: "#111111",
+  },
+  link: {
+    color: ACCENT_COLOR,
+    fontSize: 12,
+    fontWeight: "600",
+    marginTop: 8,
+  },
+});
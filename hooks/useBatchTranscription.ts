@@ -0,0 +1,210 @@
+/**
+ * Batch transcription of several files, one at a time.
+ *
+ * The hook keeps the queue (`batchQueue.ts`) and starts the next queued item
+ * whenever nothing is running and it isn't paused. The actual transcription
+ * is passed in by the caller, so batch items go through the same chunked file
+ * path as single files and are saved to history the same way. The queue
+ * lives in memory; an item interrupted by a crash still has its job
+ * checkpoint and shows up with the other interrupted transcriptions.
+ */
+import { useState, useCallback, useEffect, useRef } from "react";
+import { getAppDirectory } from "../lib/appFiles";
+import {
+  canRetryBatchItem,
+  createBatchItem,
+  getNextBatchItem,
+  isBatchItemFinished,
+  moveBatchItem,
+  updateBatchItem,
+  type BatchItem,
+} from "../lib/batchQueue";
+import { deleteLongformJob } from "../lib/longformJobs";
+
+export interface BatchTranscribeControls {
+  // 0-100, for converting and planning a new item's audio
+  onPrepareProgress: (progress: number) => void;
+  // 0-100
+  onProgress: (progress: number) => void;
+  // Lets cancel abort the item while its chunks are transcribed
+  setStop: (stop: (() => Promise<void>) | null) => void;
+  // The item's checkpointed job, resumed if the item is retried after failing
+  onJob: (jobId: string) => void;
+  // True once the user cancelled the item, e.g. while its audio was prepared
+  isCancelled: () => boolean;
+}
+
+export type BatchTranscribe = (
+  item: BatchItem,
+  controls: BatchTranscribeControls
+) => Promise<{ isAborted: boolean; transcriptId?: string }>;
+
+interface UseBatchTranscriptionOptions {
+  transcribe: BatchTranscribe;
+  // Nothing new starts while paused; a running item finishes first
+  paused: boolean;
+}
+
+export function useBatchTranscription({
+  transcribe,
+  paused,
+}: UseBatchTranscriptionOptions) {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const itemsRef = useRef(items);
+  const transcribeRef = useRef(transcribe);
+  transcribeRef.current = transcribe;
+  const runningIdRef = useRef<string | null>(null);
+  const stopRef = useRef<(() => Promise<void>) | null>(null);
+  const cancelRequestedRef = useRef(false);
+
+  const commit = useCallback((update: (prev: BatchItem[]) => BatchItem[]) => {
+    itemsRef.current = update(itemsRef.current);
+    setItems(itemsRef.current);
+  }, []);
+
+  const patchItem = useCallback(
+    (id: string, patch: Partial<Omit<BatchItem, "id">>) =>
+      commit((prev) => updateBatchItem(prev, id, patch)),
+    [commit]
+  );
+
+  const runItem = useCallback(
+    async (item: BatchItem) => {
+      runningIdRef.current = item.id;
+      cancelRequestedRef.current = false;
+      patchItem(item.id, {
+        status: "running",
+        progress: 0,
+        isPreparing: false,
+        error: undefined,
+      });
+      console.log(`Batch: transcribing ${item.title}`);
+
+      let patch: Partial<BatchItem>;
+      try {
+        const { isAborted, transcriptId } = await transcribeRef.current(item, {
+          onPrepareProgress: (progress) =>
+            patchItem(item.id, { progress, isPreparing: true }),
+          onProgress: (progress) =>
+            patchItem(item.id, { progress, isPreparing: false }),
+          setStop: (stop) => {
+            stopRef.current = stop;
+          },
+          onJob: (jobId) => patchItem(item.id, { jobId }),
+          isCancelled: () => cancelRequestedRef.current,
+        });
+        // Cancelled jobs are deleted, so a retry starts over
+        patch = isAborted
+          ? { status: "cancelled", progress: 0, jobId: undefined }
+          : { status: "done", progress: 100, jobId: undefined, transcriptId };
+      } catch (error) {
+        console.warn(`Batch: ${item.title} failed:`, error);
+        patch = {
+          status: "failed",
+          error: error instanceof Error ? error.message : `${error}`,
+        };
+      }
+      // Cleared before the update so the effect below can start the next item
+      stopRef.current = null;
+      runningIdRef.current = null;
+      patchItem(item.id, { ...patch, isPreparing: false });
+    },
+    [patchItem]
+  );
+
+  useEffect(() => {
+    if (paused || runningIdRef.current) return;
+    const next = getNextBatchItem(items);
+    if (next) void runItem(next);
+  }, [items, paused, runItem]);
+
+  const addItems = useCallback(
+    (files: { title: string; audioUri: string }[]) => {
+      commit((prev) => [
+        ...prev,
+        ...files.map(({ title, audioUri }) => createBatchItem(title, audioUri)),
+      ]);
+    },
+    [commit]
+  );
+
+  const moveItem = useCallback(
+    (id: string, offset: number) =>
+      commit((prev) => moveBatchItem(prev, id, offset)),
+    [commit]
+  );
+
+  const cancelItem = useCallback(
+    async (id: string) => {
+      if (runningIdRef.current === id) {
+        cancelRequestedRef.current = true;
+        try {
+          await stopRef.current?.();
+        } catch (error) {
+          console.warn("Failed to stop batch item:", error);
+        }
+        return;
+      }
+      const item = itemsRef.current.find((entry) => entry.id === id);
+      if (item?.status === "queued") patchItem(id, { status: "cancelled" });
+    },
+    [patchItem]
+  );
+
+  const retryItem = useCallback(
+    (id: string) => {
+      const item = itemsRef.current.find((entry) => entry.id === id);
+      if (!item || !canRetryBatchItem(item)) return;
+      patchItem(id, { status: "queued", progress: 0, error: undefined });
+    },
+    [patchItem]
+  );
+
+  // Drops items and the checkpoints of any that failed part way
+  const forgetItems = useCallback(
+    (shouldRemove: (item: BatchItem) => boolean) => {
+      const removed = itemsRef.current.filter(
+        (item) => item.status !== "running" && shouldRemove(item)
+      );
+      for (const item of removed) {
+        if (item.jobId) deleteLongformJob(getAppDirectory(), item.jobId);
+      }
+      commit((prev) => prev.filter((item) => !removed.includes(item)));
+    },
+    [commit]
+  );
+
+  const removeItem = useCallback(
+    (id: string) => forgetItems((item) => item.id === id),
+    [forgetItems]
+  );
+
+  const clearFinished = useCallback(
+    () => forgetItems(isBatchItemFinished),
+    [forgetItems]
+  );
+
+  // A running item would otherwise keep transcribing for nobody
+  useEffect(
+    () => () => {
+      cancelRequestedRef.current = true;
+      stopRef.current?.().catch((error) => {
+        console.warn("Failed to stop batch item on unmount:", error);
+      });
+    },
+    []
+  );
+
+  const isRunning = items.some((item) => item.status === "running");
+
+  return {
+    items,
+    isRunning,
+    addItems,
+    moveItem,
+    cancelItem,
+    retryItem,
+    removeItem,
+    clearFinished,
+  };
+}
@@ -0,0 +1,403 @@
+/**
+ * Live transcription from the microphone on a given Whisper context.
+ *
+ * The hook owns the whole session: microphone permission, the chain of
+ * capture runs (`liveSession.ts`), the stitched transcript
+ * (`liveTranscript.ts`) and language votes in Auto mode. Its state is a small
+ * state machine:
+ *
+ *   idle → requestingPermission → starting → listening → stopping → idle
+ *
+ * Any step can end in `error` (permission denied, capture failed to start or
+ * stopped on its own), from which a new session can be started. Consumers
+ * get typed events: `partial` whenever the text changes, `segment` once per
+ * segment of a finished slice, and `final` when the session ends. With
+ * `recordAudio`, the session's audio is saved (`liveRecording.ts`) and the
+ * final event carries its URI. The session is stopped when the component
+ * unmounts.
+ */
+import { useState, useCallback, useEffect, useRef } from "react";
+import { Alert, Platform } from "react-native";
+import {
+  getRecordingPermissionsAsync,
+  requestRecordingPermissionsAsync,
+} from "expo-audio";
+import {
+  AudioSessionIos,
+  type TranscribeRealtimeOptions,
+  type WhisperContext,
+} from "whisper.rn/index.js";
+import {
+  AUTO_LANGUAGE,
+  tallyLanguages,
+  type LanguageDetection,
+} from "../lib/language";
+import {
+  createLiveSessionController,
+  type LiveRunInfo,
+  type LiveSessionController,
+} from "../lib/liveSession";
+import {
+  createLiveTranscript,
+  type LiveTranscribeEvent,
+} from "../lib/liveTranscript";
+import { createLiveRecording, type LiveRecording } from "../lib/liveRecording";
+import { stripSpeakerTurns } from "../lib/speakers";
+import type { TranscriptSegment } from "../lib/transcriptStore";
+
+export type RealtimeTranscriptionState =
+  | { status: "idle" }
+  | { status: "requestingPermission" }
+  | { status: "starting" }
+  // `part` counts capture runs; it goes past 1 in sessions longer than realtimeAudioSec
+  | { status: "listening"; part: number }
+  | { status: "stopping" }
+  | { status: "error"; message: string };
+
+export type RealtimeTranscriptionStatus = RealtimeTranscriptionState["status"];
+
+interface RealtimeTranscriptSnapshot {
+  // Without speaker turn markers
+  text: string;
+  // Raw segments; tdrz models keep their speaker turn markers
+  segments: TranscriptSegment[];
+  recordingTimeMs: number;
+  // Only set when the session language is Auto
+  detection: LanguageDetection | null;
+}
+
+export type RealtimeTranscriptionEvent =
+  | ({ type: "partial" } & RealtimeTranscriptSnapshot)
+  | { type: "segment"; segment: TranscriptSegment }
+  | ({
+      type: "final";
+      // "error" when capture stopped without the user asking
+      reason: "stopped" | "error";
+      // Why capture stopped, for "error"
+      message?: string;
+      // Saved session audio, when it was recorded
+      audioUri?: string;
+    } & RealtimeTranscriptSnapshot);
+
+export interface RealtimeSessionOptions {
+  // Saves the session's audio as a 16 kHz WAV
+  recordAudio?: boolean;
+}
+
+interface UseRealtimeTranscriptionOptions {
+  whisperContext: WhisperContext | null;
+  onEvent?: (event: RealtimeTranscriptionEvent) => void;
+}
+
+const PERMISSION_DENIED_MESSAGE =
+  "Real-time transcription requires microphone access.";
+
+// Mixes with other audio on iOS and restores the previous session afterwards.
+// The enums are only exported as values through AudioSessionIos.
+const IOS_AUDIO_SESSION_OPTIONS: Pick<
+  TranscribeRealtimeOptions,
+  "audioSessionOnStartIos"
+> & { audioSessionOnStopIos: "restore" } = {
+  audioSessionOnStartIos: {
+    category: AudioSessionIos.Category.PlayAndRecord,
+    options: [AudioSessionIos.CategoryOption.MixWithOthers],
+    mode: AudioSessionIos.Mode.Default,
+  },
+  audioSessionOnStopIos: "restore",
+};
+
+async function ensureMicrophonePermission(): Promise<boolean> {
+  if (Platform.OS === "web") {
+    Alert.alert(
+      "Unsupported Platform",
+      "Real-time transcription is not available on the web."
+    );
+    return false;
+  }
+
+  const getPermissionText = (blocked: boolean) =>
+    blocked
+      ? Platform.OS === "android"
+        ? "Please enable microphone access in Android Settings to use real-time transcription."
+        : "Please enable microphone access in iOS Settings to use real-time transcription."
+      : "Microphone permission is required for real-time transcription.";
+
+  try {
+    let permissionStatus = await getRecordingPermissionsAsync();
+
+    if (permissionStatus.granted) {
+      return true;
+    }
+
+    if (!permissionStatus.canAskAgain) {
+      Alert.alert("Microphone Permission", getPermissionText(true));
+      console.warn("Microphone permission permanently denied.");
+      return false;
+    }
+
+    permissionStatus = await requestRecordingPermissionsAsync();
+
+    if (permissionStatus.granted) {
+      return true;
+    }
+
+    const blocked = !permissionStatus.canAskAgain;
+    Alert.alert("Microphone Permission", getPermissionText(blocked));
+    console.warn("Microphone permission not granted:", permissionStatus);
+    return false;
+  } catch (err) {
+    console.error("Failed to verify microphone permission:", err);
+    Alert.alert(
+      "Microphone Permission",
+      "Unable to verify microphone permission. Please try again."
+    );
+    return false;
+  }
+}
+
+export function useRealtimeTranscription({
+  whisperContext,
+  onEvent,
+}: UseRealtimeTranscriptionOptions) {
+  const [state, setState] = useState<RealtimeTranscriptionState>({
+    status: "idle",
+  });
+  const [text, setText] = useState("");
+  const [detection, setDetection] = useState<LanguageDetection | null>(null);
+  // Refs are the source of truth; state only mirrors them for rendering
+  const stateRef = useRef(state);
+  const controllerRef = useRef<LiveSessionController | null>(null);
+  const sessionRef = useRef<{
+    language: string;
+    transcript: ReturnType<typeof createLiveTranscript>;
+    detection: LanguageDetection | null;
+    recordingTimeMs: number;
+    // Language votes from finished capture runs
+    pastVotes: string[];
+    emittedSegments: number;
+    recording: LiveRecording | null;
+  } | null>(null);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+  const isMountedRef = useRef(true);
+
+  const getStatus = () => stateRef.current.status;
+
+  const transition = useCallback((next: RealtimeTranscriptionState) => {
+    stateRef.current = next;
+    if (isMountedRef.current) setState(next);
+  }, []);
+
+  const emit = useCallback((event: RealtimeTranscriptionEvent) => {
+    onEventRef.current?.(event);
+  }, []);
+
+  const emitCommittedSegments = useCallback(
+    (segments: TranscriptSegment[]) => {
+      const session = sessionRef.current;
+      if (!session) return;
+      for (const segment of segments.slice(session.emittedSegments)) {
+        emit({ type: "segment", segment });
+      }
+      session.emittedSegments = Math.max(
+        session.emittedSegments,
+        segments.length
+      );
+    },
+    [emit]
+  );
+
+  const snapshot = useCallback((): RealtimeTranscriptSnapshot | null => {
+    const session = sessionRef.current;
+    if (!session) return null;
+    return {
+      text: stripSpeakerTurns(session.transcript.getText()).trim(),
+      segments: session.transcript.getSegments(),
+      recordingTimeMs: session.recordingTimeMs,
+      detection: session.detection,
+    };
+  }, []);
+
+  // Ends the session: the last slice is final too, so its segments go out first
+  const finish = useCallback(
+    async (reason: "stopped" | "error", message?: string) => {
+      const final = snapshot();
+      if (final) emitCommittedSegments(final.segments);
+      const recording = sessionRef.current?.recording ?? null;
+      sessionRef.current = null;
+      controllerRef.current = null;
+
+      let audioUri: string | undefined;
+      try {
+        audioUri = (await recording?.finish())?.uri;
+      } catch (error) {
+        console.warn("Failed to save live session audio:", error);
+      }
+      if (final) emit({ type: "final", reason, message, audioUri, ...final });
+    },
+    [emit, emitCommittedSegments, snapshot]
+  );
+
+  const handleEvent = useCallback(
+    (event: LiveTranscribeEvent, run: LiveRunInfo) => {
+      const session = sessionRef.current;
+      if (!session) return;
+      const { isCapturing, data, recordingTime, slices } = event;
+      session.recordingTimeMs = run.elapsedMs + (recordingTime ?? 0);
+
+      // Every slice is detected on its own, so each one is a vote
+      const votes: string[] = slices
+        ? slices.map((slice) => slice.data?.language ?? "")
+        : [data?.language ?? ""];
+      if (session.language === AUTO_LANGUAGE) {
+        session.detection = tallyLanguages([...session.pastVotes, ...votes]);
+        if (isMountedRef.current) setDetection(session.detection);
+      }
+      if (!isCapturing) {
+        // Keep this run's votes once the next run starts counting from scratch
+        session.pastVotes = session.pastVotes.concat(votes);
+      }
+
+      // Earlier slices stay committed; only the slice being recorded is replaced
+      if (session.transcript.update(event)) {
+        const partial = snapshot()!;
+        if (isMountedRef.current) setText(partial.text);
+        emitCommittedSegments(session.transcript.getCommittedSegments());
+        emit({ type: "partial", ...partial });
+      }
+    },
+    [emit, emitCommittedSegments, snapshot]
+  );
+
+  /**
+   * Starts a session with `options`. Resolves to false when microphone access
+   * was refused; throws when capture couldn't start.
+   */
+  const start = useCallback(
+    async (
+      options: TranscribeRealtimeOptions,
+      { recordAudio = false }: RealtimeSessionOptions = {}
+    ) => {
+      const { status } = stateRef.current;
+      if (status !== "idle" && status !== "error") return false;
+      if (!whisperContext) throw new Error("Whisper not initialized");
+
+      transition({ status: "requestingPermission" });
+      const hasMicPermission = await ensureMicrophonePermission();
+      if (!hasMicPermission) {
+        transition({ status: "error", message: PERMISSION_DENIED_MESSAGE });
+        return false;
+      }
+
+      transition({ status: "starting" });
+      setText("");
+      setDetection(null);
+      sessionRef.current = {
+        language: options.language ?? AUTO_LANGUAGE,
+        transcript: createLiveTranscript(),
+        detection: null,
+        recordingTimeMs: 0,
+        pastVotes: [],
+        emittedSegments: 0,
+        recording: recordAudio ? createLiveRecording() : null,
+      };
+      const { recording } = sessionRef.current;
+
+      const realtimeOptions: TranscribeRealtimeOptions = {
+        ...IOS_AUDIO_SESSION_OPTIONS,
+        ...options,
+      };
+      const controller = createLiveSessionController(
+        // Every run writes its own file; they are joined when the session ends
+        () =>
+          whisperContext.transcribeRealtime(
+            recording
+              ? {
+                  ...realtimeOptions,
+                  audioOutputPath: recording.nextPartPath(),
+                }
+              : realtimeOptions
+          ),
+        {
+          onEvent: handleEvent,
+          onRollover: (run) => {
+            const session = sessionRef.current;
+            if (!session) return;
+            session.transcript.startNextRun(run.elapsedMs);
+            emitCommittedSegments(session.transcript.getCommittedSegments());
+            transition({ status: "listening", part: run.index + 1 });
+          },
+          onUnexpectedStop: (message) => {
+            transition({ status: "error", message });
+            void finish("error", message);
+          },
+        }
+      );
+      controllerRef.current = controller;
+
+      try {
+        await controller.start();
+      } catch (error) {
+        controllerRef.current = null;
+        sessionRef.current = null;
+        recording?.discard();
+        transition({ status: "error", message: `${error}` });
+        throw error;
+      }
+      // A stop during startup already moved the state on
+      if (getStatus() === "starting") {
+        transition({ status: "listening", part: 1 });
+      }
+      return true;
+    },
+    [whisperContext, handleEvent, emitCommittedSegments, finish, transition]
+  );
+
+  const stop = useCallback(async () => {
+    const { status } = stateRef.current;
+    if (status !== "starting" && status !== "listening") return;
+    transition({ status: "stopping" });
+    try {
+      await controllerRef.current?.stop();
+    } catch (error) {
+      console.warn("Error stopping real-time transcription:", error);
+    }
+    // Stays in "stopping" until the recorded audio is saved
+    await finish("stopped");
+    transition({ status: "idle" });
+  }, [finish, transition]);
+
+  /** Clears the last session's text and error once nothing is running. */
+  const reset = useCallback(() => {
+    const { status } = stateRef.current;
+    if (status !== "idle" && status !== "error") return;
+    setText("");
+    setDetection(null);
+    transition({ status: "idle" });
+  }, [transition]);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+      // Nobody is left to receive the transcript, so no final event
+      const recording = sessionRef.current?.recording;
+      sessionRef.current = null;
+      controllerRef.current
+        ?.stop()
+        .catch((error) => {
+          console.warn("Failed to stop live session on unmount:", error);
+        })
+        .finally(() => recording?.discard());
+      controllerRef.current = null;
+    };
+  }, []);
+
+  const isActive =
+    state.status === "requestingPermission" ||
+    state.status === "starting" ||
+    state.status === "listening" ||
+    state.status === "stopping";
+
+  return { state, isActive, text, detection, start, stop, reset };
+}
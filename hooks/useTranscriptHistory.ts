@@ -0,0 +1,93 @@
+/**
+ * Transcript history backed by the on-disk transcript store.
+ */
+import { useState, useCallback, useEffect } from "react";
+import { getAppDirectory } from "../lib/appFiles";
+import {
+  deleteTranscript,
+  listTranscripts,
+  readTranscript,
+  saveTranscript,
+  updateTranscript,
+  type NewTranscriptEntry,
+  type TranscriptEntry,
+} from "../lib/transcriptStore";
+import { renameSpeaker } from "../lib/speakers";
+import { deleteLiveRecording } from "../lib/liveRecording";
+
+export function useTranscriptHistory() {
+  const [transcripts, setTranscripts] = useState<TranscriptEntry[]>([]);
+
+  const refreshTranscripts = useCallback(() => {
+    setTranscripts(listTranscripts(getAppDirectory()));
+  }, []);
+
+  const addTranscript = useCallback((input: NewTranscriptEntry) => {
+    try {
+      const entry = saveTranscript(getAppDirectory(), input);
+      setTranscripts((prev) => [entry, ...prev]);
+      console.log(`Saved ${entry.source} transcript ${entry.id}`);
+      return entry;
+    } catch (error) {
+      console.error("Failed to save transcript:", error);
+      return null;
+    }
+  }, []);
+
+  const renameTranscript = useCallback((id: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) throw new Error("Title can't be empty");
+
+    const entry = updateTranscript(getAppDirectory(), id, { title: trimmed });
+    if (!entry) throw new Error("Transcript not found");
+    setTranscripts((prev) => prev.map((t) => (t.id === id ? entry : t)));
+    return entry;
+  }, []);
+
+  const renameTranscriptSpeaker = useCallback(
+    (id: string, speaker: number, name: string) => {
+      const existing = readTranscript(getAppDirectory(), id);
+      if (!existing) throw new Error("Transcript not found");
+
+      const entry = updateTranscript(getAppDirectory(), id, {
+        speakers: renameSpeaker(existing.speakers, speaker, name),
+      });
+      if (!entry) throw new Error("Transcript not found");
+      setTranscripts((prev) => prev.map((t) => (t.id === id ? entry : t)));
+      return entry;
+    },
+    []
+  );
+
+  const removeTranscript = useCallback((id: string) => {
+    const appDirectory = getAppDirectory();
+    const audioUri = readTranscript(appDirectory, id)?.audioUri;
+    deleteTranscript(appDirectory, id);
+    // Live audio belongs to its session, unless a re-transcription still links to it
+    const remaining = listTranscripts(appDirectory);
+    if (audioUri && !remaining.some((t) => t.audioUri === audioUri)) {
+      deleteLiveRecording(audioUri);
+    }
+    setTranscripts(remaining);
+    console.log(`Deleted transcript ${id}`);
+  }, []);
+
+  const getTranscriptById = useCallback(
+    (id: string) => transcripts.find((t) => t.id === id) ?? null,
+    [transcripts]
+  );
+
+  useEffect(() => {
+    refreshTranscripts();
+  }, [refreshTranscripts]);
+
+  return {
+    transcripts,
+    addTranscript,
+    renameTranscript,
+    renameTranscriptSpeaker,
+    removeTranscript,
+    refreshTranscripts,
+    getTranscriptById,
+  };
+}
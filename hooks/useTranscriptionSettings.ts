@@ -0,0 +1,108 @@
+/**
+ * Per-model transcription settings, VAD settings and the live audio toggle
+ * backed by `whisper-app-files/settings.json`.
+ */
+import { useState, useCallback, useRef } from "react";
+import { getAppDirectory } from "../lib/appFiles";
+import type { WhisperModel } from "../lib/modelRegistry";
+import {
+  getModelSettings,
+  getPreset,
+  normalizeTranscriptionSettings,
+  readSettingsStore,
+  writeSettingsStore,
+  type SettingsStore,
+  type TranscriptionPresetId,
+  type TranscriptionSettings,
+} from "../lib/transcriptionSettings";
+import { normalizeVadSettings, type VadSettings } from "../lib/vad";
+
+export function useTranscriptionSettings() {
+  // Read synchronously so the first model load already sees the saved VAD toggle
+  const [store, setStore] = useState<SettingsStore>(() =>
+    readSettingsStore(getAppDirectory())
+  );
+  const storeRef = useRef(store);
+
+  const commit = useCallback((next: SettingsStore) => {
+    storeRef.current = next;
+    setStore(next);
+    writeSettingsStore(getAppDirectory(), next);
+  }, []);
+
+  const updateModelSettings = useCallback(
+    (model: WhisperModel, changes: Partial<TranscriptionSettings>) => {
+      const current = storeRef.current;
+      const { settings } = getModelSettings(current, model);
+      commit({
+        ...current,
+        models: {
+          ...current.models,
+          [model.id]: {
+            presetId: "custom",
+            settings: normalizeTranscriptionSettings({
+              ...settings,
+              ...changes,
+            }),
+          },
+        },
+      });
+    },
+    [commit]
+  );
+
+  const applyPreset = useCallback(
+    (model: WhisperModel, presetId: TranscriptionPresetId) => {
+      const current = storeRef.current;
+      commit({
+        ...current,
+        models: {
+          ...current.models,
+          [model.id]: { presetId, settings: getPreset(presetId).settings },
+        },
+      });
+    },
+    [commit]
+  );
+
+  // Forgets the model's saved settings so its recommended preset applies again
+  const resetModelSettings = useCallback(
+    (model: WhisperModel) => {
+      const current = storeRef.current;
+      const { [model.id]: _removed, ...models } = current.models;
+      commit({ ...current, models });
+    },
+    [commit]
+  );
+
+  const updateVadSettings = useCallback(
+    (update: (prev: VadSettings) => VadSettings) => {
+      const current = storeRef.current;
+      commit({ ...current, vad: normalizeVadSettings(update(current.vad)) });
+    },
+    [commit]
+  );
+
+  const setSaveLiveAudio = useCallback(
+    (enabled: boolean) => {
+      commit({ ...storeRef.current, saveLiveAudio: enabled });
+    },
+    [commit]
+  );
+
+  const getSettingsForModel = useCallback(
+    (model?: WhisperModel | null) => getModelSettings(store, model),
+    [store]
+  );
+
+  return {
+    vadSettings: store.vad,
+    saveLiveAudio: store.saveLiveAudio,
+    getSettingsForModel,
+    updateModelSettings,
+    applyPreset,
+    resetModelSettings,
+    updateVadSettings,
+    setSaveLiveAudio,
+  };
+}
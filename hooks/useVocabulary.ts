@@ -0,0 +1,112 @@
+/**
+ * Vocabulary lists backed by `whisper-app-files/vocabulary.json`, with the
+ * selected list compiled into a Whisper prompt.
+ */
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { getAppDirectory } from "../lib/appFiles";
+import {
+  compileVocabularyPrompt,
+  DEFAULT_VOCABULARY_STATE,
+  getSelectedList,
+  parseTerms,
+  readVocabulary,
+  writeVocabulary,
+  type VocabularyList,
+  type VocabularyState,
+} from "../lib/vocabulary";
+
+export interface VocabularyListInput {
+  // Missing when creating a list
+  id?: string;
+  name: string;
+  termsText: string;
+}
+
+export function useVocabulary() {
+  const [vocabulary, setVocabulary] = useState<VocabularyState>(
+    DEFAULT_VOCABULARY_STATE
+  );
+  const vocabularyRef = useRef(vocabulary);
+
+  const commit = useCallback((next: VocabularyState) => {
+    vocabularyRef.current = next;
+    setVocabulary(next);
+    writeVocabulary(getAppDirectory(), next);
+  }, []);
+
+  const saveVocabularyList = useCallback(
+    ({ id, name, termsText }: VocabularyListInput) => {
+      const trimmed = name.trim();
+      if (!trimmed) throw new Error("Name can't be empty");
+      const terms = parseTerms(termsText);
+      if (terms.length === 0) throw new Error("Add at least one term");
+
+      const current = vocabularyRef.current;
+      const list: VocabularyList = {
+        id: id ?? Date.now().toString(36),
+        name: trimmed,
+        terms,
+      };
+      const exists = current.lists.some((l) => l.id === list.id);
+      commit({
+        ...current,
+        lists: exists
+          ? current.lists.map((l) => (l.id === list.id ? list : l))
+          : [...current.lists, list],
+        // A new list is usually made to be used right away
+        selectedListId: exists ? current.selectedListId : list.id,
+      });
+      return list;
+    },
+    [commit]
+  );
+
+  const deleteVocabularyList = useCallback(
+    (id: string) => {
+      const current = vocabularyRef.current;
+      commit({
+        ...current,
+        lists: current.lists.filter((l) => l.id !== id),
+        selectedListId:
+          current.selectedListId === id ? null : current.selectedListId,
+      });
+    },
+    [commit]
+  );
+
+  const selectVocabularyList = useCallback(
+    (id: string | null) => {
+      commit({ ...vocabularyRef.current, selectedListId: id });
+    },
+    [commit]
+  );
+
+  const setCorrectSpellings = useCallback(
+    (correctSpellings: boolean) => {
+      commit({ ...vocabularyRef.current, correctSpellings });
+    },
+    [commit]
+  );
+
+  const selectedList = getSelectedList(vocabulary);
+  const vocabularyPrompt = useMemo(
+    () => compileVocabularyPrompt(selectedList?.terms ?? []),
+    [selectedList]
+  );
+
+  useEffect(() => {
+    const stored = readVocabulary(getAppDirectory());
+    vocabularyRef.current = stored;
+    setVocabulary(stored);
+  }, []);
+
+  return {
+    vocabulary,
+    selectedList,
+    vocabularyPrompt,
+    saveVocabularyList,
+    deleteVocabularyList,
+    selectVocabularyList,
+    setCorrectSpellings,
+  };
+}
@@ -1,103 +1,217 @@
 /**
- * OpenAI's Whisper models converted to ggml format for use with whisper.cpp
- *
- * Download from https://huggingface.co/ggerganov/whisper.cpp/tree/main
+ * Model lifecycle for whisper.rn: registry, downloads, verification and
+ * context initialization.
  */
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { Directory, File, Paths } from "expo-file-system";
 import {
   createDownloadResumable,
   type DownloadProgressData,
+  type DownloadResumable,
   type FileSystemDownloadResult,
 } from "expo-file-system/legacy";
 import { initWhisper, initWhisperVad } from "whisper.rn/index.js";
-import type { WhisperContext } from "whisper.rn/index.js";
-
-export interface WhisperModel {
-  id: string;
-  label: string;
-  url: string;
-  filename: string;
-  capabilities: {
-    multilingual: boolean;
-    quantizable: boolean;
-    tdrz?: boolean; // Optional TDRZ capability for native models
-  };
-}
+import type { WhisperContext, WhisperVadContext } from "whisper.rn/index.js";
+import {
+  clearVerificationStamp,
+  getPartialFile,
+  hasValidVerificationStamp,
+  quarantineModelFile,
+  verifyModelFile,
+  writeVerificationStamp,
+  type ModelVerificationResult,
+} from "../lib/modelIntegrity";
+import {
+  clearDownloadSnapshot,
+  getResumeData,
+  readDownloadSnapshot,
+  writeDownloadSnapshot,
+} from "../lib/downloadSnapshots";
+import {
+  DEFAULT_MAX_CONCURRENT_DOWNLOADS,
+  DOWNLOAD_PRIORITY,
+  getNextDownloads,
+  isDownloadPending,
+  type DownloadEntry,
+} from "../lib/downloadQueue";
+import {
+  createCustomModel,
+  getBundledModels,
+  loadModelRegistry,
+  readCustomModels,
+  writeCustomModels,
+  type CustomModelInput,
+  type WhisperModel,
+} from "../lib/modelRegistry";
+import {
+  createContextCache,
+  DEFAULT_CONTEXT_MEMORY_BUDGET_MB,
+  DEFAULT_MAX_WARM_CONTEXTS,
+} from "../lib/contextCache";
+import { VAD_MODEL } from "../lib/vad";
 
-export const WHISPER_MODELS: WhisperModel[] = [
-  {
-    id: "large-v3-turbo",
-    label: "Large Multilanguae",
-    url: "https://huggingface.co/ggerganov/whisper.cpp/resolve/main/ggml-large-v3-turbo.bin",
-    filename: "ggml-large-v3-turbo.bin",
-    capabilities: {
-      multilingual: true,
-      quantizable: false,
-    },
-  },
-  {
-    id: "tiny",
-    label: "Tiny (en)",
-    url: "https://huggingface.co/ggerganov/whisper.cpp/resolve/main/ggml-tiny.en.bin",
-    filename: "ggml-tiny.en.bin",
-    capabilities: {
-      multilingual: false,
-      quantizable: false,
-    },
-  },
-  {
-    id: "base",
-    label: "Base Model",
-    url: "https://huggingface.co/ggerganov/whisper.cpp/resolve/main/ggml-base.bin",
-    filename: "ggml-base.bin",
-    capabilities: {
-      multilingual: true,
-      quantizable: false,
-    },
-  },
-  {
-    id: "small",
-    label: "Small Model",
-    url: "https://huggingface.co/ggerganov/whisper.cpp/resolve/main/ggml-small.bin",
-    filename: "ggml-small.bin",
-    capabilities: {
-      multilingual: true,
-      quantizable: false,
-    },
-  },
-  {
-    id: "small-tdrz",
-    label: "Small (tdrz)",
-    url: "https://huggingface.co/ggerganov/whisper.cpp/resolve/main/ggml-small.en-tdrz.bin",
-    filename: "ggml-small.en-tdrz.bin",
-    capabilities: {
-      multilingual: false,
-      quantizable: false,
-      tdrz: true,
-    },
-  },
-];
+export type { WhisperModel } from "../lib/modelRegistry";
 
 interface ModelFileInfo {
   path: string;
   size: number;
 }
 
-export function useWhisperModels() {
+interface QuarantinedModelInfo {
+  path: string;
+  reason: string;
+}
+
+interface UseWhisperModelsOptions {
+  // How many models may download at the same time
+  maxConcurrentDownloads?: number;
+  // How many initialized contexts stay warm, including the active one
+  maxWarmContexts?: number;
+  // Combined model size the warm contexts may occupy
+  contextMemoryBudgetMB?: number;
+}
+
+interface DownloadWaiter {
+  resolve: (uri: string | null) => void;
+  reject: (error: unknown) => void;
+}
+
+const getProgressFraction = ({
+  totalBytesWritten,
+  totalBytesExpectedToWrite,
+}: Pick<
+  DownloadProgressData,
+  "totalBytesWritten" | "totalBytesExpectedToWrite"
+>) =>
+  totalBytesExpectedToWrite > 0
+    ? totalBytesWritten / totalBytesExpectedToWrite
+    : 0;
+
+// Memory estimate for a context; the weights dominate what whisper.cpp allocates
+const getContextSizeBytes = (model: WhisperModel, modelPath: string) => {
+  try {
+    const size = new File(modelPath).size;
+    if (size > 0) return size;
+  } catch (error) {
+    console.warn(`Failed to read size of ${modelPath}:`, error);
+  }
+  return (model.approxSizeMB ?? 0) * 1024 * 1024;
+};
+
+export function useWhisperModels(options?: UseWhisperModelsOptions) {
+  const maxConcurrentDownloads =
+    options?.maxConcurrentDownloads ?? DEFAULT_MAX_CONCURRENT_DOWNLOADS;
+  const maxWarmContexts = options?.maxWarmContexts ?? DEFAULT_MAX_WARM_CONTEXTS;
+  const contextMemoryBudgetMB =
+    options?.contextMemoryBudgetMB ?? DEFAULT_CONTEXT_MEMORY_BUDGET_MB;
+
+  const [models, setModels] = useState<WhisperModel[]>(getBundledModels);
   const [modelFiles, setModelFiles] = useState<Record<string, ModelFileInfo>>(
     {}
   );
-  const [downloadProgress, setDownloadProgress] = useState<
-    Record<string, number>
+  const [downloads, setDownloads] = useState<Record<string, DownloadEntry>>({});
+  const [quarantinedModels, setQuarantinedModels] = useState<
+    Record<string, QuarantinedModelInfo>
   >({});
-  const [isDownloading, setIsDownloading] = useState(false);
   const [isInitializingModel, setIsInitializingModel] = useState(false);
   const [whisperContext, setWhisperContext] = useState<WhisperContext | null>(
     null
   );
-  const [vadContext, setVadContext] = useState<any>(null);
+  const [vadContext, setVadContext] = useState<WhisperVadContext | null>(null);
   const [currentModelId, setCurrentModelId] = useState<string | null>(null);
+  // Models whose contexts are initialized, most recently used first
+  const [warmModelIds, setWarmModelIds] = useState<string[]>([]);
+
+  // The queue lives in a ref so concurrent downloads never read a stale copy;
+  // `downloads` mirrors it for rendering
+  const downloadsRef = useRef<Record<string, DownloadEntry>>({});
+  const downloadWaitersRef = useRef<Record<string, DownloadWaiter[]>>({});
+  // Active download tasks and the latest byte counts reported for them
+  const downloadTasksRef = useRef<Record<string, DownloadResumable>>({});
+  const downloadBytesRef = useRef<Record<string, DownloadProgressData>>({});
+  // Set when the user pauses or cancels so the pending download can tell why it stopped
+  const interruptedDownloadsRef = useRef<
+    Record<string, "paused" | "cancelled">
+  >({});
+  // The model the user asked for most recently; older requests skip initialization
+  const requestedModelIdRef = useRef<string | null>(null);
+  // Native contexts are released as soon as they leave the cache, so nothing
+  // outlives a model switch unless the budget allows it to stay warm
+  const contextCacheRef = useRef(
+    createContextCache<WhisperContext>({
+      maxContexts: maxWarmContexts,
+      memoryBudgetBytes: contextMemoryBudgetMB * 1024 * 1024,
+    })
+  );
+  const vadContextRef = useRef<WhisperVadContext | null>(null);
+  const vadInitRef = useRef<Promise<WhisperVadContext | null> | null>(null);
+
+  // Mirrors `models` so callbacks always see the latest registry
+  const modelsRef = useRef(models);
+
+  const updateRegistry = useCallback((next: WhisperModel[]) => {
+    modelsRef.current = next;
+    setModels(next);
+  }, []);
+
+  // The VAD model downloads through the same queue but stays out of the registry
+  const findModel = useCallback((modelId: string) => {
+    if (modelId === VAD_MODEL.id) return VAD_MODEL;
+    return modelsRef.current.find((m) => m.id === modelId);
+  }, []);
+
+  const syncWarmModels = useCallback(() => {
+    setWarmModelIds(contextCacheRef.current.modelIds());
+  }, []);
+
+  const releaseVadContext = useCallback(async () => {
+    const vad = vadContextRef.current;
+    vadContextRef.current = null;
+    setVadContext(null);
+    if (!vad) return;
+    try {
+      await vad.release();
+      console.log("Released VAD context");
+    } catch (error) {
+      console.warn("Failed to release VAD context:", error);
+    }
+  }, []);
+
+  const updateDownload = useCallback(
+    (modelId: string, patch: Partial<DownloadEntry> | null) => {
+      const next = { ...downloadsRef.current };
+      if (patch === null) {
+        delete next[modelId];
+      } else {
+        next[modelId] = {
+          ...(next[modelId] ?? {
+            modelId,
+            status: "queued",
+            progress: 0,
+            priority: DOWNLOAD_PRIORITY.background,
+            enqueuedAt: Date.now(),
+          }),
+          ...patch,
+        };
+      }
+      downloadsRef.current = next;
+      setDownloads(next);
+    },
+    []
+  );
+
+  const settleDownload = useCallback(
+    (modelId: string, result: { uri: string | null } | { error: unknown }) => {
+      const waiters = downloadWaitersRef.current[modelId] || [];
+      delete downloadWaitersRef.current[modelId];
+      waiters.forEach((waiter) =>
+        "error" in result
+          ? waiter.reject(result.error)
+          : waiter.resolve(result.uri)
+      );
+    },
+    []
+  );
 
   const getModelDirectory = useCallback(async () => {
     let documentDirectory: Directory;
@@ -121,148 +235,513 @@ export function useWhisperModels() {
     return directory;
   }, []);
 
-  const downloadModel = useCallback(
-    async (model: WhisperModel) => {
-      const directory = await getModelDirectory();
-      const file = new File(directory, model.filename);
+  // Verifies a stored model file, moving it to quarantine when it fails
+  const checkStoredModel = useCallback(
+    async (
+      model: WhisperModel,
+      file: File
+    ): Promise<ModelVerificationResult> => {
+      if (hasValidVerificationStamp(file)) {
+        return { ok: true, digest: null };
+      }
 
-      // Helper to update cache with latest stat info
-      const updateModelFileInfo = () => {
-        try {
-          const stats = file.info();
-          if (!stats.exists) throw new Error("File not found");
-          setModelFiles((prev) => ({
-            ...prev,
-            [model.id]: {
-              path: file.uri,
-              size: Number(stats.size) || 0,
-            },
-          }));
-        } catch (statError) {
-          console.warn(
-            `Failed to stat model file ${model.id} at ${file.uri}:`,
-            statError
-          );
-          setModelFiles((prev) => ({
-            ...prev,
-            [model.id]: {
-              path: file.uri,
-              size: 0,
-            },
-          }));
-        }
-      };
+      console.log(`Verifying model ${model.id} at ${file.uri}`);
+      const result = await verifyModelFile(model, file);
+      if (result.ok) {
+        writeVerificationStamp(file, result.digest);
+        return result;
+      }
 
-      // Check if file already exists
-      let existingInfo;
+      console.warn(`Model ${model.id} failed verification: ${result.reason}`);
       try {
-        existingInfo = file.info();
-      } catch (infoError) {
+        const directory = await getModelDirectory();
+        const quarantinedPath = quarantineModelFile(directory, file);
+        setQuarantinedModels((prev) => ({
+          ...prev,
+          [model.id]: { path: quarantinedPath, reason: result.reason },
+        }));
+      } catch (quarantineError) {
         console.warn(
-          `Failed to read info for model ${model.id} at ${file.uri}:`,
-          infoError
+          `Failed to quarantine model file ${model.id}:`,
+          quarantineError
         );
-        existingInfo = { exists: false };
-      }
-      if (existingInfo.exists) {
-        console.log(`Model ${model.id} already exists at ${file.uri}`);
-        updateModelFileInfo();
-        return file.uri;
       }
+      return result;
+    },
+    [getModelDirectory]
+  );
+
+  // Helper to update cache with latest stat info
+  const updateModelFileInfo = useCallback((model: WhisperModel, file: File) => {
+    try {
+      const stats = file.info();
+      if (!stats.exists) throw new Error("File not found");
+      setModelFiles((prev) => ({
+        ...prev,
+        [model.id]: {
+          path: file.uri,
+          size: Number(stats.size) || 0,
+        },
+      }));
+    } catch (statError) {
+      console.warn(
+        `Failed to stat model file ${model.id} at ${file.uri}:`,
+        statError
+      );
+      setModelFiles((prev) => ({
+        ...prev,
+        [model.id]: {
+          path: file.uri,
+          size: 0,
+        },
+      }));
+    }
+  }, []);
 
-      setIsDownloading(true);
-      console.log(`Downloading model ${model.id} from ${model.url}`);
+  /**
+   * Transfers one model into place. Resolves with the model path, or null when
+   * the download was paused or cancelled before it finished.
+   */
+  const runDownload = useCallback(
+    async (model: WhisperModel): Promise<string | null> => {
+      const directory = await getModelDirectory();
+      const file = new File(directory, model.filename);
+
+      // Download under a temporary name so a killed download never looks like a model
+      const partialFile = getPartialFile(directory, model);
+      const snapshot = readDownloadSnapshot(directory, model);
+      const resumeData = getResumeData(directory, model, snapshot);
+      let expectedSize = snapshot?.totalBytesExpectedToWrite ?? 0;
+
+      updateDownload(model.id, { status: "downloading", error: undefined });
+      console.log(
+        resumeData
+          ? `Resuming download of model ${model.id} from ${model.url}`
+          : `Downloading model ${model.id} from ${model.url}`
+      );
 
       try {
+        if (!resumeData && partialFile.exists) partialFile.delete();
+
+        writeDownloadSnapshot(directory, model, {
+          url: model.url,
+          fileUri: partialFile.uri,
+          resumeData,
+          totalBytesWritten: snapshot?.totalBytesWritten ?? 0,
+          totalBytesExpectedToWrite: expectedSize,
+          updatedAt: Date.now(),
+        });
+
         const downloadResumable = createDownloadResumable(
           model.url,
-          file.uri,
+          partialFile.uri,
           undefined,
           (progressData: DownloadProgressData) => {
-            const { totalBytesWritten, totalBytesExpectedToWrite } = progressData;
-            const fraction =
-              totalBytesExpectedToWrite > 0
-                ? totalBytesWritten / totalBytesExpectedToWrite
-                : 0;
-            setDownloadProgress((prev) => ({
-              ...prev,
-              [model.id]: fraction,
-            }));
+            downloadBytesRef.current[model.id] = progressData;
+            expectedSize = progressData.totalBytesExpectedToWrite;
+            const fraction = getProgressFraction(progressData);
+            if (!interruptedDownloadsRef.current[model.id]) {
+              updateDownload(model.id, { progress: fraction });
+            }
             console.log(
               `Download progress for ${model.id}: ${(fraction * 100).toFixed(
                 1
               )}%`
             );
           },
+          resumeData
         );
+        downloadTasksRef.current[model.id] = downloadResumable;
 
-        const downloadResult = (await downloadResumable.downloadAsync()) as
+        const downloadResult = (await (resumeData
+          ? downloadResumable.resumeAsync()
+          : downloadResumable.downloadAsync())) as
           | FileSystemDownloadResult
           | undefined;
 
+        const interruption = interruptedDownloadsRef.current[model.id];
+        if (interruption) {
+          console.log(`Download of model ${model.id} ${interruption}`);
+          return null;
+        }
+
         if (
-          downloadResult &&
-          (downloadResult.status === 0 ||
-            (downloadResult.status >= 200 && downloadResult.status < 300))
+          !downloadResult ||
+          !(
+            downloadResult.status === 0 ||
+            (downloadResult.status >= 200 && downloadResult.status < 300)
+          )
         ) {
-          console.log(`Successfully downloaded model ${model.id}`);
-          updateModelFileInfo();
-          setDownloadProgress((prev) => ({ ...prev, [model.id]: 1 }));
-          return file.uri;
-        } else {
           throw new Error(
             `Download failed with status: ${downloadResult?.status}`
           );
         }
+
+        console.log(`Verifying downloaded model ${model.id}`);
+        updateDownload(model.id, { status: "verifying", progress: 1 });
+        const verification = await verifyModelFile(model, partialFile, {
+          expectedSize: expectedSize > 0 ? expectedSize : undefined,
+        });
+        if (!verification.ok) {
+          throw new Error(
+            `Downloaded model ${model.id} failed verification: ${verification.reason}`
+          );
+        }
+
+        if (file.exists) file.delete();
+        partialFile.rename(model.filename);
+        writeVerificationStamp(file, verification.digest);
+        clearDownloadSnapshot(directory, model);
+
+        console.log(`Successfully downloaded model ${model.id}`);
+        updateModelFileInfo(model, file);
+        setQuarantinedModels((prev) => {
+          const next = { ...prev };
+          delete next[model.id];
+          return next;
+        });
+        updateDownload(model.id, { status: "done", progress: 1 });
+        return file.uri;
       } catch (error) {
+        // Pausing can surface as a rejected download on some platforms
+        if (interruptedDownloadsRef.current[model.id] === "paused") {
+          console.log(`Download of model ${model.id} paused`);
+          return null;
+        }
+
         console.error(`Error downloading model ${model.id}:`, error);
+        try {
+          const partialInfo = partialFile.info();
+          if (partialInfo.exists) partialFile.delete();
+        } catch (cleanupError) {
+          console.warn(
+            `Failed to remove partial download for ${model.id}:`,
+            cleanupError
+          );
+        }
+        clearDownloadSnapshot(directory, model);
+        if (interruptedDownloadsRef.current[model.id] === "cancelled") {
+          return null;
+        }
+        updateDownload(model.id, {
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+        });
         throw error;
       } finally {
-        setIsDownloading(false);
+        delete downloadTasksRef.current[model.id];
+        delete downloadBytesRef.current[model.id];
+        delete interruptedDownloadsRef.current[model.id];
       }
     },
-    [getModelDirectory]
+    [getModelDirectory, updateDownload, updateModelFileInfo]
+  );
+
+  // Starts queued downloads, highest priority first, until the concurrency limit is reached
+  const pumpDownloadQueue = useCallback(() => {
+    getNextDownloads(downloadsRef.current, maxConcurrentDownloads).forEach(
+      (modelId) => {
+        const model = findModel(modelId);
+        if (!model) {
+          updateDownload(modelId, null);
+          settleDownload(modelId, { uri: null });
+          return;
+        }
+
+        // Claim the slot synchronously so the next pass doesn't start it twice
+        updateDownload(modelId, { status: "downloading" });
+        runDownload(model)
+          .then((uri) => settleDownload(modelId, { uri }))
+          .catch((error) => settleDownload(modelId, { error }))
+          .finally(pumpDownloadQueue);
+      }
+    );
+  }, [
+    findModel,
+    maxConcurrentDownloads,
+    runDownload,
+    settleDownload,
+    updateDownload,
+  ]);
+
+  // Queues a model and resolves once it has been downloaded and verified
+  const enqueueDownload = useCallback(
+    (modelId: string, priority: number) => {
+      const promise = new Promise<string | null>((resolve, reject) => {
+        downloadWaitersRef.current[modelId] = [
+          ...(downloadWaitersRef.current[modelId] || []),
+          { resolve, reject },
+        ];
+      });
+
+      const entry = downloadsRef.current[modelId];
+      if (isDownloadPending(entry)) {
+        if (entry && priority > entry.priority) {
+          updateDownload(modelId, { priority });
+        }
+      } else {
+        updateDownload(modelId, {
+          status: "queued",
+          priority: Math.max(priority, entry?.priority ?? priority),
+          enqueuedAt: Date.now(),
+          error: undefined,
+        });
+      }
+
+      pumpDownloadQueue();
+      return promise;
+    },
+    [pumpDownloadQueue, updateDownload]
+  );
+
+  const downloadModel = useCallback(
+    async (
+      model: WhisperModel,
+      options?: { priority?: number }
+    ): Promise<string | null> => {
+      const directory = await getModelDirectory();
+      const file = new File(directory, model.filename);
+
+      // Check if file already exists
+      let existingInfo;
+      try {
+        existingInfo = file.info();
+      } catch (infoError) {
+        console.warn(
+          `Failed to read info for model ${model.id} at ${file.uri}:`,
+          infoError
+        );
+        existingInfo = { exists: false };
+      }
+      if (
+        existingInfo.exists &&
+        !isDownloadPending(downloadsRef.current[model.id])
+      ) {
+        const verification = await checkStoredModel(model, file);
+        if (verification.ok) {
+          console.log(`Model ${model.id} already exists at ${file.uri}`);
+          updateModelFileInfo(model, file);
+          return file.uri;
+        }
+        setModelFiles((prev) => {
+          const next = { ...prev };
+          delete next[model.id];
+          return next;
+        });
+        console.log(`Re-downloading model ${model.id} after failed check`);
+      }
+
+      return enqueueDownload(
+        model.id,
+        options?.priority ?? DOWNLOAD_PRIORITY.background
+      );
+    },
+    [checkStoredModel, enqueueDownload, getModelDirectory, updateModelFileInfo]
+  );
+
+  const pauseDownload = useCallback(
+    async (modelId: string) => {
+      const model = findModel(modelId);
+      const entry = downloadsRef.current[modelId];
+      if (!model || !entry) {
+        console.warn(`No download to pause for model: ${modelId}`);
+        return;
+      }
+
+      // Queued downloads haven't opened a connection yet
+      if (entry.status === "queued") {
+        updateDownload(modelId, { status: "paused" });
+        settleDownload(modelId, { uri: null });
+        return;
+      }
+
+      const downloadResumable = downloadTasksRef.current[modelId];
+      if (entry.status !== "downloading" || !downloadResumable) {
+        console.warn(`Download of model ${modelId} can't be paused now`);
+        return;
+      }
+
+      interruptedDownloadsRef.current[modelId] = "paused";
+      try {
+        const pauseState = await downloadResumable.pauseAsync();
+        const bytes = downloadBytesRef.current[modelId];
+        const directory = await getModelDirectory();
+        writeDownloadSnapshot(directory, model, {
+          url: pauseState.url,
+          fileUri: pauseState.fileUri,
+          resumeData: pauseState.resumeData,
+          totalBytesWritten: bytes?.totalBytesWritten ?? 0,
+          totalBytesExpectedToWrite: bytes?.totalBytesExpectedToWrite ?? 0,
+          updatedAt: Date.now(),
+        });
+        updateDownload(modelId, { status: "paused" });
+        console.log(`Paused download of model ${modelId}`);
+      } catch (error) {
+        delete interruptedDownloadsRef.current[modelId];
+        console.error(`Failed to pause download of model ${modelId}:`, error);
+        throw error;
+      } finally {
+        pumpDownloadQueue();
+      }
+    },
+    [
+      findModel,
+      getModelDirectory,
+      pumpDownloadQueue,
+      settleDownload,
+      updateDownload,
+    ]
   );
 
+  const resumeDownload = useCallback(
+    async (modelId: string, options?: { priority?: number }) => {
+      const model = findModel(modelId);
+      if (!model) throw new Error("Invalid model selected");
+      return downloadModel(model, options);
+    },
+    [downloadModel, findModel]
+  );
+
+  const cancelDownload = useCallback(
+    async (modelId: string) => {
+      const model = findModel(modelId);
+      if (!model) return;
+
+      const downloadResumable = downloadTasksRef.current[modelId];
+      if (downloadResumable) {
+        interruptedDownloadsRef.current[modelId] = "cancelled";
+        try {
+          await downloadResumable.cancelAsync();
+        } catch (error) {
+          console.warn(`Failed to cancel download of model ${modelId}:`, error);
+        }
+      }
+
+      const directory = await getModelDirectory();
+      try {
+        const partialFile = getPartialFile(directory, model);
+        if (partialFile.exists) partialFile.delete();
+      } catch (error) {
+        console.warn(
+          `Failed to remove partial download for ${modelId}:`,
+          error
+        );
+      }
+      clearDownloadSnapshot(directory, model);
+
+      updateDownload(modelId, null);
+      settleDownload(modelId, { uri: null });
+      pumpDownloadQueue();
+      console.log(`Cancelled download of model ${modelId}`);
+    },
+    [
+      findModel,
+      getModelDirectory,
+      pumpDownloadQueue,
+      settleDownload,
+      updateDownload,
+    ]
+  );
+
+  // Downloads the Silero model if needed and keeps one VAD context alive
+  // across Whisper model switches
+  const initializeVadModel = useCallback(() => {
+    if (vadContextRef.current) return Promise.resolve(vadContextRef.current);
+    // Concurrent callers share one initialization
+    if (vadInitRef.current) return vadInitRef.current;
+
+    const initialize = async () => {
+      const modelPath = await downloadModel(VAD_MODEL, {
+        priority: DOWNLOAD_PRIORITY.userRequested,
+      });
+      if (!modelPath) {
+        console.log("Download of the VAD model was interrupted");
+        return null;
+      }
+
+      console.log("Initializing VAD context...");
+      const vad = await initWhisperVad({
+        filePath: modelPath,
+        useGpu: true,
+      });
+      vadContextRef.current = vad;
+      setVadContext(vad);
+      console.log("VAD context initialized successfully");
+      return vad;
+    };
+
+    vadInitRef.current = initialize().finally(() => {
+      vadInitRef.current = null;
+    });
+    return vadInitRef.current;
+  }, [downloadModel]);
+
   const initializeWhisperModel = useCallback(
     async (modelId: string, options?: { initVad?: boolean }) => {
-      const model = WHISPER_MODELS.find((m) => m.id === modelId);
+      const model = findModel(modelId);
       if (!model) throw new Error("Invalid model selected");
 
+      requestedModelIdRef.current = modelId;
+      console.log(`Initializing Whisper model: ${model.label}`);
+
+      // Download model if not already available
+      const modelPath = await downloadModel(model, {
+        priority: DOWNLOAD_PRIORITY.userRequested,
+      });
+      if (!modelPath) {
+        console.log(`Download of ${model.label} was interrupted`);
+        return null;
+      }
+      if (requestedModelIdRef.current !== modelId) {
+        console.log(
+          `Skipping initialization of ${model.label}; another model was selected`
+        );
+        return null;
+      }
+
       try {
         setIsInitializingModel(true);
-        console.log(`Initializing Whisper model: ${model.label}`);
 
-        // Download model if not already available
-        const modelPath = await downloadModel(model);
+        // Reuse a warm context instead of loading the weights again
+        let context = contextCacheRef.current.get(modelId);
+        if (context) {
+          console.log(`Reusing warm Whisper context for model: ${model.label}`);
+        } else {
+          context = await initWhisper({
+            filePath: modelPath,
+          });
+          // Caching the new context releases whatever no longer fits the budget
+          const evicted = await contextCacheRef.current.put(
+            modelId,
+            context,
+            getContextSizeBytes(model, modelPath)
+          );
+          if (evicted.length > 0) {
+            console.log(`Evicted warm contexts: ${evicted.join(", ")}`);
+          }
+          console.log(`Whisper context initialized for model: ${model.label}`);
+        }
+        syncWarmModels();
 
-        // Initialize Whisper context
-        const context = await initWhisper({
-          filePath: modelPath,
-        });
+        if (requestedModelIdRef.current !== modelId) {
+          // Leave it warm in the cache; the newer request owns the active slot
+          return null;
+        }
 
         setWhisperContext(context);
         setCurrentModelId(modelId);
-        console.log(`Whisper context initialized for model: ${model.label}`);
-
-        // Optionally initialize VAD context
-        if (options?.initVad) {
-          console.log("Initializing VAD context...");
-          try {
-            const vad = await initWhisperVad({
-              filePath: modelPath,
-            });
-            setVadContext(vad);
-            console.log("VAD context initialized successfully");
-          } catch (vadError) {
-            console.warn("VAD initialization failed:", vadError);
-            // Continue without VAD - it's optional
-          }
-        }
+
+        // VAD is optional, so a failure here never blocks transcription
+        const vad = options?.initVad
+          ? await initializeVadModel().catch((vadError) => {
+              console.warn("VAD initialization failed:", vadError);
+              return null;
+            })
+          : vadContextRef.current;
 
         return {
           whisperContext: context,
-          vadContext: options?.initVad ? vadContext : null,
+          vadContext: vad,
         };
       } catch (error) {
         console.error("Model initialization error:", error);
@@ -271,19 +750,47 @@ export function useWhisperModels() {
         setIsInitializingModel(false);
       }
     },
-    [downloadModel, vadContext]
+    [downloadModel, findModel, initializeVadModel, syncWarmModels]
+  );
+
+  // Releases a model's context, whether it is the active one or only warm
+  const unloadModel = useCallback(
+    async (modelId: string) => {
+      let released = await contextCacheRef.current.remove(modelId);
+      syncWarmModels();
+
+      if (modelId === VAD_MODEL.id) {
+        released = vadContextRef.current !== null;
+        await releaseVadContext();
+      }
+      if (currentModelId === modelId) {
+        setWhisperContext(null);
+        setCurrentModelId(null);
+      }
+      if (released) {
+        console.log(`Unloaded model ${modelId}`);
+      }
+      return released;
+    },
+    [currentModelId, releaseVadContext, syncWarmModels]
   );
 
-  const resetWhisperContext = useCallback(() => {
+  const resetWhisperContext = useCallback(async () => {
+    requestedModelIdRef.current = null;
     setWhisperContext(null);
-    setVadContext(null);
     setCurrentModelId(null);
+    await Promise.all([contextCacheRef.current.clear(), releaseVadContext()]);
+    syncWarmModels();
     console.log("Whisper contexts reset");
-  }, []);
+  }, [releaseVadContext, syncWarmModels]);
 
-  const getModelById = useCallback((modelId: string) => {
-    return WHISPER_MODELS.find((m) => m.id === modelId);
-  }, []);
+  const getModelById = useCallback(
+    (modelId: string) => {
+      if (modelId === VAD_MODEL.id) return VAD_MODEL;
+      return models.find((m) => m.id === modelId);
+    },
+    [models]
+  );
 
   const getCurrentModel = useCallback(() => {
     return currentModelId ? getModelById(currentModelId) : null;
@@ -296,11 +803,25 @@ export function useWhisperModels() {
     [modelFiles]
   );
 
+  const getDownloadStatus = useCallback(
+    (modelId: string) => {
+      return downloads[modelId]?.status ?? null;
+    },
+    [downloads]
+  );
+
+  const isModelDownloading = useCallback(
+    (modelId: string) => {
+      return isDownloadPending(downloads[modelId]);
+    },
+    [downloads]
+  );
+
   const getDownloadProgress = useCallback(
     (modelId: string) => {
-      return downloadProgress[modelId] || 0;
+      return downloads[modelId]?.progress || 0;
     },
-    [downloadProgress]
+    [downloads]
   );
 
   const deleteModel = useCallback(
@@ -318,6 +839,7 @@ export function useWhisperModels() {
           file.delete();
           console.log(`Deleted model file at ${fileInfo.path}`);
         }
+        clearVerificationStamp(file);
       } catch (error) {
         console.error(`Failed to delete model ${modelId}:`, error);
         throw error;
@@ -328,29 +850,108 @@ export function useWhisperModels() {
         delete next[modelId];
         return next;
       });
-      setDownloadProgress((prev) => {
-        const next = { ...prev };
-        delete next[modelId];
-        return next;
-      });
+      updateDownload(modelId, null);
 
-      if (currentModelId === modelId) {
-        if (whisperContext?.release) {
-          try {
-            await whisperContext.release();
-          } catch (releaseError) {
-            console.warn(
-              "Failed to release Whisper context during model deletion:",
-              releaseError
-            );
-          }
-        }
-        setWhisperContext(null);
-        setCurrentModelId(null);
-        setVadContext(null);
+      // The weights are gone, so a warm context for them must not be reused
+      await unloadModel(modelId);
+    },
+    [modelFiles, unloadModel, updateDownload]
+  );
+
+  const persistCustomModel = useCallback(
+    async (model: WhisperModel) => {
+      const directory = await getModelDirectory();
+      writeCustomModels(directory, [...readCustomModels(directory), model]);
+      updateRegistry(loadModelRegistry(directory));
+      console.log(`Registered custom model ${model.id}`);
+    },
+    [getModelDirectory, updateRegistry]
+  );
+
+  // Registers a model that downloads from a user-supplied URL
+  const registerCustomModel = useCallback(
+    async (input: CustomModelInput) => {
+      const result = createCustomModel(input, modelsRef.current);
+      if (!result.ok) {
+        throw new Error(`Invalid model: ${result.errors.join("; ")}`);
       }
+      await persistCustomModel(result.model);
+      return result.model;
     },
-    [currentModelId, modelFiles, whisperContext]
+    [persistCustomModel]
+  );
+
+  // Copies a ggml .bin file the user picks into the model directory and registers it
+  const importModelFile = useCallback(async () => {
+    let picked: Awaited<ReturnType<typeof File.pickFileAsync>>;
+    try {
+      picked = await File.pickFileAsync();
+    } catch (error) {
+      // Dismissing the picker rejects instead of resolving empty
+      console.log("Model file picker closed:", error);
+      return null;
+    }
+    const pickedFile = Array.isArray(picked) ? picked[0] : picked;
+    if (!pickedFile) return null;
+    const source = new File(pickedFile.uri);
+    if (!source.name.toLowerCase().endsWith(".bin")) {
+      throw new Error("Pick a ggml model file ending in .bin");
+    }
+
+    const result = createCustomModel(
+      {
+        label: source.name.replace(/\.bin$/i, ""),
+        url: source.uri,
+        filename: source.name,
+      },
+      modelsRef.current
+    );
+    if (!result.ok) {
+      throw new Error(`Invalid model: ${result.errors.join("; ")}`);
+    }
+
+    const directory = await getModelDirectory();
+    const destination = new File(directory, result.model.filename);
+    // The picked file lives in the picker's cache, which the OS may purge, so
+    // the entry points at the copy instead
+    const model = { ...result.model, url: destination.uri };
+    if (destination.exists) destination.delete();
+    source.copy(destination);
+
+    const verification = await verifyModelFile(model, destination);
+    if (!verification.ok) {
+      destination.delete();
+      throw new Error(
+        `${source.name} is not a usable model: ${verification.reason}`
+      );
+    }
+    writeVerificationStamp(destination, verification.digest);
+
+    await persistCustomModel(model);
+    updateModelFileInfo(model, destination);
+    return model;
+  }, [getModelDirectory, persistCustomModel, updateModelFileInfo]);
+
+  const removeCustomModel = useCallback(
+    async (modelId: string) => {
+      const model = findModel(modelId);
+      if (model?.source !== "custom") {
+        console.warn(`Attempted to remove non-custom model: ${modelId}`);
+        return;
+      }
+
+      await cancelDownload(modelId);
+      await deleteModel(modelId);
+
+      const directory = await getModelDirectory();
+      writeCustomModels(
+        directory,
+        readCustomModels(directory).filter((m) => m.id !== modelId)
+      );
+      updateRegistry(loadModelRegistry(directory));
+      console.log(`Removed custom model ${modelId}`);
+    },
+    [cancelDownload, deleteModel, findModel, getModelDirectory, updateRegistry]
   );
 
   useEffect(() => {
@@ -359,13 +960,21 @@ export function useWhisperModels() {
     const loadExistingModels = async () => {
       try {
         const directory = await getModelDirectory();
+        const registry = loadModelRegistry(directory);
+        if (!isMounted) return;
+        updateRegistry(registry);
+
+        const storedAssets = [...registry, VAD_MODEL];
         const entries = await Promise.all(
-          WHISPER_MODELS.map(async (model) => {
+          storedAssets.map(async (model) => {
             const file = new File(directory, model.filename);
             try {
               const fileInfo = file.info();
               if (!fileInfo.exists) return null;
 
+              const verification = await checkStoredModel(model, file);
+              if (!verification.ok) return null;
+
               return {
                 id: model.id,
                 info: {
@@ -375,16 +984,10 @@ export function useWhisperModels() {
               } as { id: string; info: ModelFileInfo };
             } catch (statError) {
               console.warn(
-                `Failed to stat existing model file ${model.id}:`,
+                `Failed to verify existing model file ${model.id}:`,
                 statError
               );
-              return {
-                id: model.id,
-                info: {
-                  path: file.uri,
-                  size: 0,
-                },
-              };
+              return null;
             }
           })
         );
@@ -401,6 +1004,25 @@ export function useWhisperModels() {
         if (Object.keys(fileMap).length > 0) {
           setModelFiles((prev) => ({ ...prev, ...fileMap }));
         }
+
+        // Surface downloads that were paused or interrupted by a previous launch
+        storedAssets.forEach((model) => {
+          if (fileMap[model.id] || downloadsRef.current[model.id]) return;
+          const snapshot = readDownloadSnapshot(directory, model);
+          if (!snapshot) return;
+          const partialFile = getPartialFile(directory, model);
+          const totalBytesWritten = partialFile.exists
+            ? Math.max(snapshot.totalBytesWritten, partialFile.size)
+            : 0;
+          updateDownload(model.id, {
+            status: "paused",
+            progress: getProgressFraction({
+              totalBytesWritten,
+              totalBytesExpectedToWrite: snapshot.totalBytesExpectedToWrite,
+            }),
+            enqueuedAt: snapshot.updatedAt,
+          });
+        });
       } catch (error) {
         console.warn("Failed to load existing Whisper models:", error);
       }
@@ -411,31 +1033,65 @@ export function useWhisperModels() {
     return () => {
       isMounted = false;
     };
-  }, [getModelDirectory]);
+  }, [checkStoredModel, getModelDirectory, updateDownload, updateRegistry]);
+
+  useEffect(() => {
+    contextCacheRef.current
+      .configure({
+        maxContexts: maxWarmContexts,
+        memoryBudgetBytes: contextMemoryBudgetMB * 1024 * 1024,
+      })
+      .then(syncWarmModels);
+  }, [contextMemoryBudgetMB, maxWarmContexts, syncWarmModels]);
+
+  // Native memory isn't reclaimed by the JS garbage collector, so release
+  // every context when the owning screen goes away
+  useEffect(() => {
+    const cache = contextCacheRef.current;
+    return () => {
+      cache.clear();
+      vadContextRef.current?.release().catch((error) => {
+        console.warn("Failed to release VAD context on unmount:", error);
+      });
+      vadContextRef.current = null;
+    };
+  }, []);
 
   return {
     // State
+    models,
     modelFiles,
-    downloadProgress,
-    isDownloading,
+    quarantinedModels,
+    downloads,
     isInitializingModel,
     whisperContext,
     vadContext,
     currentModelId,
+    warmModelIds,
 
     // Actions
     downloadModel,
+    pauseDownload,
+    resumeDownload,
+    cancelDownload,
     initializeWhisperModel,
+    initializeVadModel,
     resetWhisperContext,
+    unloadModel,
     deleteModel,
+    registerCustomModel,
+    importModelFile,
+    removeCustomModel,
 
     // Helpers
     getModelById,
     getCurrentModel,
     isModelDownloaded,
+    isModelDownloading,
+    getDownloadStatus,
     getDownloadProgress,
 
-    // Constants
-    availableModels: WHISPER_MODELS,
+    // Registry (kept under its old name for existing callers)
+    availableModels: models,
   };
 }
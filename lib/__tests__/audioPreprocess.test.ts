@@ -0,0 +1,271 @@
+import {
+  AudioFormatError,
+  WHISPER_SAMPLE_RATE,
+  createResampler,
+  decodePcm,
+  decodeWav,
+  downmixToMono,
+  encodeWav,
+  encodeWavHeader,
+  floatToInt16,
+  getNormalizationGain,
+  isWhisperFormat,
+  parseWavHeader,
+  preprocessPcm,
+  type WavFormat,
+} from "../audioPreprocess";
+
+// Builds a WAV file from raw sample bytes with any fmt fields
+function buildWav(
+  data: Uint8Array,
+  {
+    audioFormat = 1,
+    channels = 1,
+    sampleRate = 16000,
+    bitsPerSample = 16,
+    extraChunk,
+  }: Partial<Omit<WavFormat, "dataOffset" | "dataLength">> & {
+    extraChunk?: Uint8Array;
+  } = {}
+) {
+  const extra = extraChunk
+    ? 8 + extraChunk.length + (extraChunk.length % 2)
+    : 0;
+  const bytes = new Uint8Array(44 + extra + data.length);
+  const view = new DataView(bytes.buffer);
+  const tag = (offset: number, value: string) => {
+    for (let i = 0; i < 4; i++) bytes[offset + i] = value.charCodeAt(i);
+  };
+  const blockAlign = (bitsPerSample / 8) * channels;
+  tag(0, "RIFF");
+  view.setUint32(4, bytes.length - 8, true);
+  tag(8, "WAVE");
+  tag(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, audioFormat, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+  let offset = 36;
+  if (extraChunk) {
+    tag(offset, "LIST");
+    view.setUint32(offset + 4, extraChunk.length, true);
+    bytes.set(extraChunk, offset + 8);
+    offset += extra;
+  }
+  tag(offset, "data");
+  view.setUint32(offset + 4, data.length, true);
+  bytes.set(data, offset + 8);
+  return bytes;
+}
+
+const int16Bytes = (values: number[]) =>
+  new Uint8Array(Int16Array.from(values).buffer);
+
+const sine = (frequency: number, sampleRate: number, seconds: number) =>
+  Float32Array.from(
+    { length: Math.round(sampleRate * seconds) },
+    (_, i) => 0.5 * Math.sin((2 * Math.PI * frequency * i) / sampleRate)
+  );
+
+const rms = (samples: Float32Array) =>
+  Math.sqrt(
+    samples.reduce((sum, value) => sum + value * value, 0) / samples.length
+  );
+
+describe("parseWavHeader", () => {
+  it("reads the format and locates the data chunk", () => {
+    const wav = buildWav(int16Bytes([1, 2, 3, 4]), {
+      channels: 2,
+      sampleRate: 44100,
+    });
+    expect(parseWavHeader(wav, wav.length)).toEqual({
+      audioFormat: 1,
+      channels: 2,
+      sampleRate: 44100,
+      bitsPerSample: 16,
+      blockAlign: 4,
+      dataOffset: 44,
+      dataLength: 8,
+    });
+  });
+
+  it("skips chunks that come before the data, including odd-sized ones", () => {
+    const wav = buildWav(int16Bytes([7]), {
+      extraChunk: new Uint8Array([1, 2, 3]),
+    });
+    const format = parseWavHeader(wav, wav.length);
+    expect(format.dataOffset).toBe(56);
+    expect(decodeWav(wav).samples[0]).toBeCloseTo(7 / 32768);
+  });
+
+  it("clamps a streaming data length to the file size", () => {
+    const wav = buildWav(int16Bytes([1, 2, 3]));
+    new DataView(wav.buffer).setUint32(40, 0xffffffff, true);
+    expect(parseWavHeader(wav, wav.length).dataLength).toBe(6);
+  });
+
+  it("rejects files that aren't WAV or use unsupported encodings", () => {
+    expect(() => parseWavHeader(new Uint8Array(44))).toThrow(AudioFormatError);
+    expect(() =>
+      parseWavHeader(buildWav(new Uint8Array(4), { audioFormat: 2 }))
+    ).toThrow("Unsupported WAV encoding");
+  });
+});
+
+describe("decodePcm", () => {
+  const format = (audioFormat: number, bitsPerSample: number): WavFormat => ({
+    audioFormat,
+    channels: 1,
+    sampleRate: 16000,
+    bitsPerSample,
+    blockAlign: bitsPerSample / 8,
+    dataOffset: 0,
+    dataLength: 0,
+  });
+
+  it("scales each integer width to [-1, 1]", () => {
+    expect(
+      Array.from(decodePcm(new Uint8Array([0, 128, 255]), format(1, 8)))
+    ).toEqual([-1, 0, 127 / 128]);
+    expect(
+      Array.from(decodePcm(int16Bytes([-32768, 16384]), format(1, 16)))
+    ).toEqual([-1, 0.5]);
+    // 0x400000 and 0xC00000, little endian
+    expect(
+      Array.from(
+        decodePcm(new Uint8Array([0, 0, 64, 0, 0, 192]), format(1, 24))
+      )
+    ).toEqual([0.5, -0.5]);
+    expect(
+      Array.from(
+        decodePcm(
+          new Uint8Array(Int32Array.from([1 << 30]).buffer),
+          format(1, 32)
+        )
+      )
+    ).toEqual([0.5]);
+  });
+
+  it("passes float samples through", () => {
+    const bytes = new Uint8Array(Float32Array.from([0.25, -0.75]).buffer);
+    expect(Array.from(decodePcm(bytes, format(3, 32)))).toEqual([0.25, -0.75]);
+  });
+});
+
+describe("downmixToMono", () => {
+  it("averages the channels of each frame", () => {
+    expect(
+      Array.from(downmixToMono(Float32Array.from([1, 0, 0.5, 0.5, -1, 0]), 2))
+    ).toEqual([0.5, 0.5, -0.5]);
+  });
+
+  it("returns mono input unchanged", () => {
+    const mono = Float32Array.from([0.1, 0.2]);
+    expect(downmixToMono(mono, 1)).toBe(mono);
+  });
+});
+
+describe("createResampler", () => {
+  it("produces the expected number of samples", () => {
+    const resampler = createResampler(48000, WHISPER_SAMPLE_RATE);
+    const out = resampler.process(sine(440, 48000, 1));
+    expect(out.length + resampler.flush().length).toBe(16000);
+  });
+
+  it("gives the same output whether fed at once or in chunks", () => {
+    const input = sine(300, 44100, 0.5);
+    const whole = createResampler(44100, WHISPER_SAMPLE_RATE);
+    const expected = [...whole.process(input), ...whole.flush()];
+
+    const chunked = createResampler(44100, WHISPER_SAMPLE_RATE);
+    const actual: number[] = [];
+    for (let start = 0; start < input.length; start += 1000) {
+      actual.push(...chunked.process(input.subarray(start, start + 1000)));
+    }
+    actual.push(...chunked.flush());
+
+    expect(actual.length).toBe(expected.length);
+    actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 5));
+  });
+
+  it("keeps speech-band tones and removes content above the new Nyquist", () => {
+    const resample = (input: Float32Array) => {
+      const resampler = createResampler(48000, WHISPER_SAMPLE_RATE);
+      return Float32Array.from([
+        ...resampler.process(input),
+        ...resampler.flush(),
+      ]);
+    };
+    const kept = resample(sine(1000, 48000, 0.5));
+    const removed = resample(sine(15000, 48000, 0.5));
+    expect(rms(kept)).toBeCloseTo(rms(sine(1000, 48000, 0.5)), 1);
+    expect(rms(removed)).toBeLessThan(0.05);
+  });
+});
+
+describe("normalization and encoding", () => {
+  it("brings the peak to the target without exceeding the maximum gain", () => {
+    expect(getNormalizationGain(0.5, { targetPeak: 0.9 })).toBeCloseTo(1.8);
+    expect(getNormalizationGain(0.001, { maxGain: 4 })).toBe(4);
+    expect(getNormalizationGain(0.5, { normalize: false })).toBe(1);
+    expect(getNormalizationGain(0)).toBe(1);
+  });
+
+  it("clips to 16-bit range", () => {
+    expect(
+      Array.from(floatToInt16(Float32Array.from([-2, 0, 0.5, 2])))
+    ).toEqual([-32768, 0, 16383, 32767]);
+  });
+
+  it("round-trips 16-bit samples through encodeWav and decodeWav", () => {
+    const samples = Int16Array.from([0, 1000, -1000, 32767, -32768]);
+    const decoded = decodeWav(encodeWav(samples));
+    expect(decoded.sampleRate).toBe(WHISPER_SAMPLE_RATE);
+    expect(decoded.channels).toBe(1);
+    expect(Array.from(decoded.samples)).toEqual(
+      Array.from(samples).map((value) => value / 32768)
+    );
+  });
+
+  it("writes a header that parses back to the same length", () => {
+    const header = encodeWavHeader(320);
+    const format = parseWavHeader(header, 44 + 320);
+    expect(format.dataLength).toBe(320);
+    expect(isWhisperFormat(format)).toBe(true);
+  });
+});
+
+describe("isWhisperFormat", () => {
+  it("accepts only 16 kHz mono 16-bit PCM", () => {
+    const parse = (options: Parameters<typeof buildWav>[1]) => {
+      const wav = buildWav(new Uint8Array(8), options);
+      return isWhisperFormat(parseWavHeader(wav, wav.length));
+    };
+    expect(parse({})).toBe(true);
+    expect(parse({ channels: 2 })).toBe(false);
+    expect(parse({ sampleRate: 44100 })).toBe(false);
+    expect(parse({ bitsPerSample: 32, audioFormat: 3 })).toBe(false);
+  });
+});
+
+describe("preprocessPcm", () => {
+  it("downmixes, resamples to 16 kHz and normalizes", () => {
+    const left = sine(440, 32000, 0.25);
+    const interleaved = new Float32Array(left.length * 2);
+    left.forEach((value, i) => {
+      interleaved[i * 2] = value * 0.2;
+      interleaved[i * 2 + 1] = value * 0.2;
+    });
+    const { samples, sampleRate, gain } = preprocessPcm(
+      { sampleRate: 32000, channels: 2, samples: interleaved },
+      { targetPeak: 0.8 }
+    );
+    expect(sampleRate).toBe(WHISPER_SAMPLE_RATE);
+    expect(samples.length).toBe(4000);
+    expect(gain).toBeGreaterThan(1);
+    expect(Math.max(...samples.map(Math.abs))).toBeCloseTo(0.8, 2);
+  });
+});
@@ -0,0 +1,27 @@
+import { correctVocabularyTerms } from "../vocabulary";
+
+describe("correctVocabularyTerms", () => {
+  it("leaves words that differ from a term only in case", () => {
+    expect(correctVocabularyTerms("ask us about it", ["IT", "US"])).toBe(
+      "ask us about it"
+    );
+  });
+
+  it("fixes spacing, hyphenation and typos", () => {
+    expect(
+      correctVocabularyTerms("call open ai about whisper-rn", [
+        "OpenAI",
+        "whisper.rn",
+      ])
+    ).toBe("call OpenAI about whisper.rn");
+    expect(correctVocabularyTerms("tensorflw is fine", ["TensorFlow"])).toBe(
+      "TensorFlow is fine"
+    );
+  });
+
+  it("keeps a possessive on the corrected term", () => {
+    expect(correctVocabularyTerms("open ai's model", ["OpenAI"])).toBe(
+      "OpenAI's model"
+    );
+  });
+});
@@ -0,0 +1,10 @@
+/**
+ * Location of everything the app writes besides models: sample audio,
+ * preferences and transcript history.
+ */
+import { Directory, Paths } from "expo-file-system";
+
+export const APP_DIRECTORY_NAME = "whisper-app-files";
+
+export const getAppDirectory = () =>
+  new Directory(Paths.document, APP_DIRECTORY_NAME);
@@ -0,0 +1,132 @@
+/**
+ * Audio files handed to Whisper.
+ *
+ * Picked files are copied into `whisper-app-files/audio` so they outlive the
+ * picker's temporary cache and can be replayed from history. Folders are
+ * imported the same way, one copy per audio file. Only WAV is accepted, since
+ * no decoder for compressed formats ships with the app (`audioPipeline.ts`);
+ * other audio is rejected here rather than failing later in a batch or an
+ * evaluation run. The JFK sample ships with the app bundle and is copied out
+ * once.
+ */
+import { Asset } from "expo-asset";
+import { Directory, File } from "expo-file-system";
+import { getAppDirectory } from "./appFiles";
+
+const AUDIO_DIRECTORY_NAME = "audio";
+const SAMPLE_FILENAME = "jfk.wav";
+const WAV_EXTENSIONS = [".wav", ".wave"];
+// Other audio found in a picked folder, reported as skipped
+const OTHER_AUDIO_EXTENSIONS = [
+  ".m4a",
+  ".mp3",
+  ".aac",
+  ".caf",
+  ".flac",
+  ".ogg",
+  ".opus",
+];
+
+export interface ImportedAudio {
+  file: File;
+  // Name the user picked, before it was made unique on disk
+  originalName: string;
+}
+
+export interface ImportedFolder {
+  imported: ImportedAudio[];
+  // Names of audio files that were left out because they aren't WAV
+  skipped: string[];
+}
+
+const hasExtension = (name: string, extensions: string[]) =>
+  extensions.some((extension) => name.toLowerCase().endsWith(extension));
+
+export const getAudioDirectory = () =>
+  new Directory(getAppDirectory(), AUDIO_DIRECTORY_NAME);
+
+/** Returns the bundled JFK sample as a file Whisper can read. */
+export async function getSampleAudioFile(): Promise<File> {
+  const appDirectory = getAppDirectory();
+  appDirectory.create({ idempotent: true, intermediates: true });
+
+  const destination = new File(appDirectory, SAMPLE_FILENAME);
+  if (destination.exists && destination.size > 0) return destination;
+
+  const [asset] = await Asset.loadAsync(require("../assets/jfk.wav"));
+  if (!asset.localUri) {
+    throw new Error("Bundled sample audio is not available");
+  }
+  if (destination.exists) destination.delete();
+  new File(asset.localUri).copy(destination);
+  console.log(`Copied bundled sample to ${destination.uri}`);
+  return destination;
+}
+
+/**
+ * Lets the user pick a WAV file and copies it into the app directory.
+ * Returns null when the picker is dismissed.
+ */
+export async function importAudioFile(): Promise<ImportedAudio | null> {
+  let picked: Awaited<ReturnType<typeof File.pickFileAsync>>;
+  try {
+    picked = await File.pickFileAsync(undefined, "audio/wav");
+  } catch (error) {
+    // Dismissing the picker rejects instead of resolving empty
+    console.log("File picker closed:", error);
+    return null;
+  }
+  const pickedFile = Array.isArray(picked) ? picked[0] : picked;
+  if (!pickedFile) return null;
+
+  const source = new File(pickedFile.uri);
+  if (!hasExtension(source.name, WAV_EXTENSIONS)) {
+    throw new Error(`${source.name} isn't a WAV file; only WAV is supported`);
+  }
+  const directory = getAudioDirectory();
+  directory.create({ idempotent: true, intermediates: true });
+
+  // Prefix with a timestamp so importing the same name twice keeps both
+  const destination = new File(directory, `${Date.now()}-${source.name}`);
+  source.copy(destination);
+  console.log(`Imported audio file ${source.name} to ${destination.uri}`);
+  return { file: destination, originalName: source.name };
+}
+
+/**
+ * Lets the user pick a folder and copies the WAV files directly inside it
+ * into the app directory, sorted by name. Returns null when the picker is
+ * dismissed.
+ */
+export async function importAudioFolder(): Promise<ImportedFolder | null> {
+  let picked: Directory;
+  try {
+    picked = new Directory((await Directory.pickDirectoryAsync()).uri);
+  } catch (error) {
+    // Dismissing the picker rejects instead of resolving empty
+    console.log("Folder picker closed:", error);
+    return null;
+  }
+
+  const files = picked
+    .list()
+    .filter((item): item is File => item instanceof File)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const sources = files.filter((file) =>
+    hasExtension(file.name, WAV_EXTENSIONS)
+  );
+  const skipped = files
+    .filter((file) => hasExtension(file.name, OTHER_AUDIO_EXTENSIONS))
+    .map((file) => file.name);
+  const directory = getAudioDirectory();
+  directory.create({ idempotent: true, intermediates: true });
+
+  const stamp = Date.now();
+  const imported = sources.map((source) => {
+    const destination = new File(directory, `${stamp}-${source.name}`);
+    source.copy(destination);
+    return { file: destination, originalName: source.name };
+  });
+  console.log(`Imported ${imported.length} audio files from ${picked.uri}`);
+  return { imported, skipped };
+}
@@ -0,0 +1,314 @@
+/**
+ * Prepares audio files for Whisper on disk.
+ *
+ * WAV input is streamed through `audioPreprocess.ts` in chunks: one pass finds
+ * the peak level, a second downmixes, resamples to 16 kHz, applies the gain
+ * and writes a 16-bit mono WAV under `whisper-app-files/audio/processed`.
+ * Passes yield to the JS thread between chunks so an hour-long file doesn't
+ * freeze the UI, and WAV files that are already 16 kHz mono 16-bit are used
+ * as they are.
+ * Compressed formats (m4a, mp3, ...) need a decoder registered with
+ * `registerAudioDecoder`; none ships with the app, so those files fail with a
+ * clear error instead of reaching whisper.cpp.
+ */
+import { Directory, File } from "expo-file-system";
+import { getAudioDirectory } from "./audioFiles";
+import {
+  AudioFormatError,
+  WHISPER_SAMPLE_RATE,
+  createResampler,
+  decodePcm,
+  downmixToMono,
+  encodeWav,
+  encodeWavHeader,
+  floatToInt16,
+  getNormalizationGain,
+  isWhisperFormat,
+  measurePeak,
+  parseWavHeader,
+  preprocessPcm,
+  type PcmAudio,
+  type PreprocessOptions,
+  type WavFormat,
+} from "./audioPreprocess";
+
+const PROCESSED_DIRECTORY_NAME = "processed";
+// Enough for RIFF chunks that precede the data chunk (LIST, bext, ...)
+const HEADER_READ_BYTES = 64 * 1024;
+const CHUNK_BYTES = 512 * 1024;
+
+export interface AudioDecoder {
+  name: string;
+  canDecode: (file: File) => boolean;
+  decode: (file: File) => Promise<PcmAudio>;
+}
+
+export interface PreparedAudio {
+  file: File;
+  // Gain applied during normalization; null when the source was used as is or
+  // an earlier conversion was reused
+  gain: number | null;
+}
+
+// Fraction of the work done, 0-1
+export type PrepareProgress = (fraction: number) => void;
+
+const decoders: AudioDecoder[] = [];
+
+/** Adds a decoder for a compressed format; later registrations win. */
+export function registerAudioDecoder(decoder: AudioDecoder) {
+  const existing = decoders.findIndex((entry) => entry.name === decoder.name);
+  if (existing >= 0) decoders.splice(existing, 1);
+  decoders.unshift(decoder);
+}
+
+const getProcessedDirectory = () =>
+  new Directory(getAudioDirectory(), PROCESSED_DIRECTORY_NAME);
+
+const getProcessedFile = (source: File) =>
+  new File(
+    getProcessedDirectory(),
+    `${source.name.replace(/\.[^.]+$/, "")}.16k.wav`
+  );
+
+const isWavFile = (file: File) => {
+  const handle = file.open();
+  try {
+    const bytes = handle.readBytes(Math.min(12, file.size));
+    const tag = (start: number) =>
+      String.fromCharCode(...Array.from(bytes.subarray(start, start + 4)));
+    return bytes.length === 12 && tag(0) === "RIFF" && tag(8) === "WAVE";
+  } finally {
+    handle.close();
+  }
+};
+
+// Calls `onChunk` with mono samples for each block of WAV data, yielding to
+// the JS thread after each one
+async function readWavChunks(
+  file: File,
+  format: WavFormat,
+  onChunk: (mono: Float32Array) => void,
+  onProgress?: PrepareProgress
+) {
+  const handle = file.open();
+  try {
+    const chunkBytes =
+      CHUNK_BYTES - (CHUNK_BYTES % format.blockAlign) || format.blockAlign;
+    let remaining = format.dataLength;
+    handle.offset = format.dataOffset;
+    while (remaining > 0) {
+      const bytes = handle.readBytes(Math.min(chunkBytes, remaining));
+      if (bytes.length === 0) break;
+      remaining -= bytes.length;
+      onChunk(downmixToMono(decodePcm(bytes, format), format.channels));
+      onProgress?.(1 - remaining / format.dataLength);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  } finally {
+    handle.close();
+  }
+}
+
+function readWavFormat(file: File) {
+  const header = file.open();
+  try {
+    return parseWavHeader(
+      header.readBytes(Math.min(HEADER_READ_BYTES, file.size)),
+      file.size
+    );
+  } finally {
+    header.close();
+  }
+}
+
+/**
+ * 16-bit samples from `startMs` to `endMs` of a WAV returned by
+ * `prepareAudioForWhisper`, for `transcribeData`. Only that range is read.
+ */
+export function readWhisperWavRange(
+  file: File,
+  startMs: number,
+  endMs: number
+): ArrayBuffer {
+  const format = readWavFormat(file);
+  if (!isWhisperFormat(format)) {
+    throw new AudioFormatError(`${file.name} isn't 16 kHz mono 16-bit WAV`);
+  }
+  const toByte = (ms: number) =>
+    Math.min(
+      format.dataLength,
+      Math.max(0, Math.round((ms * format.sampleRate) / 1000)) *
+        format.blockAlign
+    );
+  const start = toByte(startMs);
+  const handle = file.open();
+  try {
+    handle.offset = format.dataOffset + start;
+    // Copied so the native side gets a buffer of just these samples
+    return new Uint8Array(handle.readBytes(toByte(endMs) - start)).buffer;
+  } finally {
+    handle.close();
+  }
+}
+
+/**
+ * RMS level of every `frameMs` of a WAV file, for finding silence to cut at.
+ * Streams the file, so it works on recordings of any length.
+ */
+export async function measureWavLevels(
+  file: File,
+  frameMs: number,
+  onProgress?: PrepareProgress
+) {
+  const format = readWavFormat(file);
+  const frameSamples = Math.max(
+    1,
+    Math.round((format.sampleRate * frameMs) / 1000)
+  );
+  const totalSamples = format.dataLength / format.blockAlign;
+  const levels = new Float32Array(Math.ceil(totalSamples / frameSamples));
+  let frame = 0;
+  let sum = 0;
+  let count = 0;
+  await readWavChunks(
+    file,
+    format,
+    (mono) => {
+      for (let i = 0; i < mono.length; i++) {
+        sum += mono[i] * mono[i];
+        if (++count === frameSamples) {
+          levels[frame++] = Math.sqrt(sum / count);
+          sum = 0;
+          count = 0;
+        }
+      }
+    },
+    onProgress
+  );
+  if (count > 0 && frame < levels.length) {
+    levels[frame] = Math.sqrt(sum / count);
+  }
+  return {
+    levels,
+    durationMs: Math.round((totalSamples / format.sampleRate) * 1000),
+  };
+}
+
+async function convertWav(
+  source: File,
+  format: WavFormat,
+  destination: File,
+  options?: PreprocessOptions,
+  onProgress?: PrepareProgress
+) {
+  // The peak pass is the first half of the work, writing the second
+  let peak = 0;
+  await readWavChunks(
+    source,
+    format,
+    (mono) => {
+      peak = Math.max(peak, measurePeak(mono));
+    },
+    (fraction) => onProgress?.(fraction / 2)
+  );
+  const gain = getNormalizationGain(peak, options);
+
+  destination.create();
+  const output = destination.open();
+  try {
+    // Placeholder header, rewritten once the data length is known
+    output.writeBytes(encodeWavHeader(0));
+    let dataLength = 0;
+    const write = (samples: Float32Array) => {
+      if (samples.length === 0) return;
+      const pcm = floatToInt16(samples, gain);
+      output.writeBytes(
+        new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)
+      );
+      dataLength += pcm.byteLength;
+    };
+
+    const resampler = createResampler(format.sampleRate, WHISPER_SAMPLE_RATE);
+    await readWavChunks(
+      source,
+      format,
+      (mono) => write(resampler.process(mono)),
+      (fraction) => onProgress?.(0.5 + fraction / 2)
+    );
+    write(resampler.flush());
+
+    output.offset = 0;
+    output.writeBytes(encodeWavHeader(dataLength));
+  } finally {
+    output.close();
+  }
+  return gain;
+}
+
+async function convertDecoded(
+  source: File,
+  destination: File,
+  options?: PreprocessOptions
+) {
+  const decoder = decoders.find((entry) => entry.canDecode(source));
+  if (!decoder) {
+    throw new AudioFormatError(
+      `No decoder available for ${source.name}; only WAV files are supported`
+    );
+  }
+  const decoded = await decoder.decode(source);
+  const { samples, gain } = preprocessPcm(decoded, options);
+  destination.create();
+  destination.write(encodeWav(floatToInt16(samples)));
+  return gain;
+}
+
+/**
+ * Converts `source` to 16 kHz mono 16-bit WAV with normalized levels. The
+ * result is cached next to other imported audio and reused until the source
+ * changes. A WAV file already in that format is returned without a copy.
+ */
+export async function prepareAudioForWhisper(
+  source: File,
+  options?: PreprocessOptions,
+  onProgress?: PrepareProgress
+): Promise<PreparedAudio> {
+  if (!source.exists) {
+    throw new Error(`Audio file not found: ${source.uri}`);
+  }
+  const wavFormat = isWavFile(source) ? readWavFormat(source) : null;
+  if (wavFormat && isWhisperFormat(wavFormat)) {
+    onProgress?.(1);
+    return { file: source, gain: null };
+  }
+  const directory = getProcessedDirectory();
+  directory.create({ idempotent: true, intermediates: true });
+
+  const destination = getProcessedFile(source);
+  if (
+    destination.exists &&
+    destination.size > 44 &&
+    (destination.modificationTime ?? 0) >= (source.modificationTime ?? 0)
+  ) {
+    return { file: destination, gain: null };
+  }
+  if (destination.exists) destination.delete();
+
+  const startTime = Date.now();
+  try {
+    const gain = wavFormat
+      ? await convertWav(source, wavFormat, destination, options, onProgress)
+      : await convertDecoded(source, destination, options);
+    console.log(
+      `Preprocessed ${source.name} in ${
+        Date.now() - startTime
+      }ms (gain ${gain.toFixed(2)})`
+    );
+    return { file: destination, gain };
+  } catch (error) {
+    // Don't leave a half-written file for the cache check to pick up
+    if (destination.exists) destination.delete();
+    throw error;
+  }
+}
@@ -0,0 +1,424 @@
+/**
+ * Pure TypeScript audio preprocessing for Whisper.
+ *
+ * whisper.cpp expects 16 kHz mono audio. Everything here works on plain byte
+ * and sample buffers, with no file system or native modules, so it runs the
+ * same in a unit test as on a device. The streaming pieces (`decodePcm`,
+ * `downmixToMono`, `createResampler`) can be fed one chunk at a time, which is
+ * how `audioPipeline.ts` keeps long recordings out of memory.
+ */
+
+export const WHISPER_SAMPLE_RATE = 16000;
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// -1 dBFS leaves headroom so resampling overshoot doesn't clip
+const DEFAULT_TARGET_PEAK = 0.89;
+// Caps the boost so near-silent recordings don't turn into amplified noise
+const DEFAULT_MAX_GAIN = 10;
+const RESAMPLER_TAPS = 33;
+
+export class AudioFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AudioFormatError";
+  }
+}
+
+export interface WavFormat {
+  // WAVE_FORMAT_PCM (integer) or WAVE_FORMAT_IEEE_FLOAT, after resolving WAVE_FORMAT_EXTENSIBLE
+  audioFormat: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  // Bytes per frame (one sample for every channel)
+  blockAlign: number;
+  // Byte offset of the first sample and the length of the sample data
+  dataOffset: number;
+  dataLength: number;
+}
+
+export interface PcmAudio {
+  sampleRate: number;
+  channels: number;
+  // Interleaved samples in [-1, 1]
+  samples: Float32Array;
+}
+
+export interface PreprocessOptions {
+  normalize?: boolean;
+  targetPeak?: number;
+  maxGain?: number;
+}
+
+const readTag = (view: DataView, offset: number) =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+
+/**
+ * Reads the RIFF/WAVE header. `bytes` only needs to cover the chunks up to the
+ * start of the `data` chunk; `fileSize` clamps a data length that streaming
+ * writers leave as 0 or 0xFFFFFFFF.
+ */
+export function parseWavHeader(
+  bytes: Uint8Array,
+  fileSize?: number
+): WavFormat {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (
+    bytes.byteLength < 12 ||
+    readTag(view, 0) !== "RIFF" ||
+    readTag(view, 8) !== "WAVE"
+  ) {
+    throw new AudioFormatError("Not a RIFF/WAVE file");
+  }
+
+  let format: Omit<WavFormat, "dataOffset" | "dataLength"> | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.byteLength) {
+    const id = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === "fmt ") {
+      if (size < 16 || body + 16 > bytes.byteLength) {
+        throw new AudioFormatError("Truncated fmt chunk");
+      }
+      let audioFormat = view.getUint16(body, true);
+      if (audioFormat === WAVE_FORMAT_EXTENSIBLE && size >= 26) {
+        // The real format is the first two bytes of the SubFormat GUID
+        audioFormat = view.getUint16(body + 24, true);
+      }
+      format = {
+        audioFormat,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        blockAlign: view.getUint16(body + 12, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+    } else if (id === "data") {
+      if (!format) throw new AudioFormatError("data chunk before fmt chunk");
+      const available = (fileSize ?? Number.MAX_SAFE_INTEGER) - body;
+      const dataLength =
+        size === 0 || size === 0xffffffff
+          ? available
+          : Math.min(size, available);
+      return validateWavFormat({
+        ...format,
+        dataOffset: body,
+        dataLength: dataLength - (dataLength % format.blockAlign),
+      });
+    }
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+  throw new AudioFormatError("No data chunk found in WAV header");
+}
+
+function validateWavFormat(format: WavFormat): WavFormat {
+  const { audioFormat, bitsPerSample, channels, sampleRate, blockAlign } =
+    format;
+  const supported =
+    (audioFormat === WAVE_FORMAT_PCM &&
+      [8, 16, 24, 32].includes(bitsPerSample)) ||
+    (audioFormat === WAVE_FORMAT_IEEE_FLOAT &&
+      [32, 64].includes(bitsPerSample));
+  if (!supported) {
+    throw new AudioFormatError(
+      `Unsupported WAV encoding (format ${audioFormat}, ${bitsPerSample}-bit)`
+    );
+  }
+  if (channels < 1 || sampleRate < 1) {
+    throw new AudioFormatError("WAV header has no channels or sample rate");
+  }
+  if (blockAlign !== (bitsPerSample / 8) * channels) {
+    throw new AudioFormatError("WAV block alignment doesn't match its format");
+  }
+  return format;
+}
+
+/** True for 16 kHz mono 16-bit PCM, which whisper.cpp reads as it is. */
+export const isWhisperFormat = (format: WavFormat) =>
+  format.audioFormat === WAVE_FORMAT_PCM &&
+  format.bitsPerSample === 16 &&
+  format.channels === 1 &&
+  format.sampleRate === WHISPER_SAMPLE_RATE;
+
+/** Converts whole frames of WAV sample data to interleaved floats in [-1, 1]. */
+export function decodePcm(bytes: Uint8Array, format: WavFormat): Float32Array {
+  const bytesPerSample = format.bitsPerSample / 8;
+  const count = Math.floor(bytes.byteLength / bytesPerSample);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const out = new Float32Array(count);
+
+  for (let i = 0; i < count; i++) {
+    const at = i * bytesPerSample;
+    if (format.audioFormat === WAVE_FORMAT_IEEE_FLOAT) {
+      out[i] =
+        format.bitsPerSample === 32
+          ? view.getFloat32(at, true)
+          : view.getFloat64(at, true);
+      continue;
+    }
+    switch (format.bitsPerSample) {
+      case 8:
+        // 8-bit WAV is unsigned
+        out[i] = (view.getUint8(at) - 128) / 128;
+        break;
+      case 16:
+        out[i] = view.getInt16(at, true) / 32768;
+        break;
+      case 24: {
+        const value =
+          view.getUint8(at) |
+          (view.getUint8(at + 1) << 8) |
+          (view.getInt8(at + 2) << 16);
+        out[i] = value / 8388608;
+        break;
+      }
+      case 32:
+        out[i] = view.getInt32(at, true) / 2147483648;
+        break;
+    }
+  }
+  return out;
+}
+
+export function downmixToMono(
+  interleaved: Float32Array,
+  channels: number
+): Float32Array {
+  if (channels === 1) return interleaved;
+  const frames = Math.floor(interleaved.length / channels);
+  const mono = new Float32Array(frames);
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += interleaved[frame * channels + channel];
+    }
+    mono[frame] = sum / channels;
+  }
+  return mono;
+}
+
+// Windowed-sinc low-pass; `cutoff` is a fraction of the input sample rate
+function createLowPassKernel(cutoff: number, taps: number) {
+  const kernel = new Float32Array(taps);
+  const center = (taps - 1) / 2;
+  let sum = 0;
+  for (let i = 0; i < taps; i++) {
+    const x = i - center;
+    const sinc =
+      x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+    const window = 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (taps - 1));
+    kernel[i] = sinc * window;
+    sum += kernel[i];
+  }
+  // Unity gain at DC
+  for (let i = 0; i < taps; i++) kernel[i] /= sum;
+  return kernel;
+}
+
+/**
+ * Streaming mono resampler. Downsampling runs a low-pass filter first so
+ * content above the new Nyquist frequency doesn't alias into speech, then
+ * interpolates linearly. Call `flush` once after the last chunk.
+ */
+export function createResampler(inputRate: number, outputRate: number) {
+  const kernel =
+    outputRate < inputRate
+      ? createLowPassKernel((0.45 * outputRate) / inputRate, RESAMPLER_TAPS)
+      : null;
+  const delay = kernel ? (kernel.length - 1) / 2 : 0;
+
+  // Filter input carried over between chunks
+  let history = new Float32Array(kernel ? kernel.length - 1 : 0);
+  // Filtered samples not yet consumed by interpolation
+  let pending = new Float32Array(0);
+  // Output samples emitted and filtered samples discarded so far
+  let produced = 0;
+  let dropped = 0;
+  // Filter output that is still inside the group delay
+  let toSkip = delay;
+
+  const filter = (input: Float32Array) => {
+    if (!kernel) return input;
+    const padded = new Float32Array(history.length + input.length);
+    padded.set(history);
+    padded.set(input, history.length);
+    const out = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      let acc = 0;
+      for (let j = 0; j < kernel.length; j++) {
+        acc += kernel[j] * padded[i + j];
+      }
+      out[i] = acc;
+    }
+    history = padded.slice(padded.length - history.length);
+    // Drop the filter's group delay so output lines up with the input
+    const skipped = Math.min(toSkip, out.length);
+    toSkip -= skipped;
+    return out.subarray(skipped);
+  };
+
+  // Positions are kept as integer ratios so chunked and whole-buffer runs agree
+  const interpolate = (final: boolean) => {
+    const out: number[] = [];
+    for (;;) {
+      const scaled = produced * inputRate;
+      const index = Math.floor(scaled / outputRate) - dropped;
+      const hasNext = index + 1 < pending.length;
+      if (!(hasNext || (final && index < pending.length))) break;
+      const fraction = (scaled % outputRate) / outputRate;
+      const next = hasNext ? pending[index + 1] : pending[index];
+      out.push(pending[index] + (next - pending[index]) * fraction);
+      produced++;
+    }
+    const consumed = Math.min(
+      Math.floor((produced * inputRate) / outputRate) - dropped,
+      pending.length
+    );
+    pending = pending.slice(consumed);
+    dropped += consumed;
+    return Float32Array.from(out);
+  };
+
+  return {
+    process(input: Float32Array): Float32Array {
+      if (inputRate === outputRate) return input;
+      const filtered = filter(input);
+      const merged = new Float32Array(pending.length + filtered.length);
+      merged.set(pending);
+      merged.set(filtered, pending.length);
+      pending = merged;
+      return interpolate(false);
+    },
+
+    flush(): Float32Array {
+      if (inputRate === outputRate) return new Float32Array(0);
+      // Push zeros through the filter to release the delayed tail
+      const tail = filter(new Float32Array(delay));
+      const merged = new Float32Array(pending.length + tail.length);
+      merged.set(pending);
+      merged.set(tail, pending.length);
+      pending = merged;
+      return interpolate(true);
+    },
+  };
+}
+
+export function measurePeak(samples: Float32Array) {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.abs(samples[i]);
+    if (value > peak) peak = value;
+  }
+  return peak;
+}
+
+/** Gain that brings `peak` to the target level, never above `maxGain`. */
+export function getNormalizationGain(
+  peak: number,
+  options?: PreprocessOptions
+) {
+  if (options?.normalize === false || peak <= 0) return 1;
+  const targetPeak = options?.targetPeak ?? DEFAULT_TARGET_PEAK;
+  const maxGain = options?.maxGain ?? DEFAULT_MAX_GAIN;
+  return Math.min(maxGain, targetPeak / peak);
+}
+
+export function floatToInt16(samples: Float32Array, gain = 1): Int16Array {
+  const out = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.max(-1, Math.min(1, samples[i] * gain));
+    out[i] = value < 0 ? value * 32768 : value * 32767;
+  }
+  return out;
+}
+
+/** 44-byte header for 16-bit PCM WAV data of `dataLength` bytes. */
+export function encodeWavHeader(
+  dataLength: number,
+  sampleRate = WHISPER_SAMPLE_RATE,
+  channels = 1
+): Uint8Array {
+  const header = new Uint8Array(44);
+  const view = new DataView(header.buffer);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+  const blockAlign = channels * 2;
+
+  writeTag(0, "RIFF");
+  view.setUint32(4, 36 + dataLength, true);
+  writeTag(8, "WAVE");
+  writeTag(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, WAVE_FORMAT_PCM, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, "data");
+  view.setUint32(40, dataLength, true);
+  return header;
+}
+
+export function encodeWav(
+  samples: Int16Array,
+  sampleRate = WHISPER_SAMPLE_RATE
+) {
+  const data = new Uint8Array(
+    samples.buffer,
+    samples.byteOffset,
+    samples.byteLength
+  );
+  const wav = new Uint8Array(44 + data.byteLength);
+  wav.set(encodeWavHeader(data.byteLength, sampleRate));
+  wav.set(data, 44);
+  return wav;
+}
+
+/**
+ * Whole-buffer pipeline: downmix, resample to 16 kHz and normalize. Returns
+ * samples ready for `encodeWav` along with the gain that was applied.
+ */
+export function preprocessPcm(
+  input: PcmAudio,
+  options?: PreprocessOptions
+): { samples: Float32Array; sampleRate: number; gain: number } {
+  const mono = downmixToMono(input.samples, input.channels);
+  const resampler = createResampler(input.sampleRate, WHISPER_SAMPLE_RATE);
+  const head = resampler.process(mono);
+  const tail = resampler.flush();
+  const resampled = new Float32Array(head.length + tail.length);
+  resampled.set(head);
+  resampled.set(tail, head.length);
+
+  const gain = getNormalizationGain(measurePeak(resampled), options);
+  if (gain !== 1) {
+    for (let i = 0; i < resampled.length; i++) resampled[i] *= gain;
+  }
+  return { samples: resampled, sampleRate: WHISPER_SAMPLE_RATE, gain };
+}
+
+/** Parses a complete WAV file held in memory. */
+export function decodeWav(bytes: Uint8Array): PcmAudio {
+  const format = parseWavHeader(bytes, bytes.byteLength);
+  const data = bytes.subarray(
+    format.dataOffset,
+    format.dataOffset + format.dataLength
+  );
+  return {
+    sampleRate: format.sampleRate,
+    channels: format.channels,
+    samples: decodePcm(data, format),
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Batch transcription queue state.
+ *
+ * Files are transcribed one at a time in list order. The hook owns the side
+ * effects; this module only decides what each item looks like, how the list
+ * is reordered and which item runs next.
+ */
+export type BatchItemStatus =
+  | "queued"
+  | "running"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export interface BatchItem {
+  id: string;
+  title: string;
+  audioUri: string;
+  status: BatchItemStatus;
+  // 0-100 while running
+  progress: number;
+  // While running, whether `progress` is preparing the audio rather than
+  // transcribing it
+  isPreparing?: boolean;
+  error?: string;
+  // Checkpointed job of a failed item, resumed on retry
+  jobId?: string;
+  // History entry saved when the item finished
+  transcriptId?: string;
+}
+
+export const BATCH_STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: "Queued",
+  running: "Transcribing",
+  done: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const createBatchItemId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createBatchItem = (
+  title: string,
+  audioUri: string
+): BatchItem => ({
+  id: createBatchItemId(),
+  title,
+  audioUri,
+  status: "queued",
+  progress: 0,
+});
+
+export const canRetryBatchItem = (item: BatchItem) =>
+  item.status === "failed" || item.status === "cancelled";
+
+export const isBatchItemFinished = (item: BatchItem) =>
+  item.status === "done" || canRetryBatchItem(item);
+
+/** The first queued item in list order. */
+export const getNextBatchItem = (items: BatchItem[]) =>
+  items.find((item) => item.status === "queued") ?? null;
+
+/**
+ * Moves an item `offset` places up (negative) or down the list. The item that
+ * is running keeps its place, so nothing is moved across it.
+ */
+export function moveBatchItem(
+  items: BatchItem[],
+  id: string,
+  offset: number
+): BatchItem[] {
+  const from = items.findIndex((item) => item.id === id);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= items.length) return items;
+  if (items[from].status === "running" || items[to].status === "running") {
+    return items;
+  }
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+export const updateBatchItem = (
+  items: BatchItem[],
+  id: string,
+  patch: Partial<Omit<BatchItem, "id">>
+) => items.map((item) => (item.id === id ? { ...item, ...patch } : item));
@@ -0,0 +1,214 @@
+/**
+ * Benchmarks downloaded models on a fixed audio set.
+ *
+ * Each run loads a fresh context per model, so load time is never hidden by
+ * the warm context cache, and transcribes every clip in `BENCHMARK_AUDIO`.
+ * Results are appended to `whisper-app-files/benchmarks.json` together with
+ * the device they ran on, so runs can be compared across devices and over
+ * time.
+ *
+ * Peak memory is the app's resident set size sampled while the model loads
+ * and transcribes. Only Android exposes it (through /proc/self/status); on
+ * iOS it is recorded as null rather than guessed.
+ */
+import { Platform } from "react-native";
+import * as Device from "expo-device";
+import { Directory, File } from "expo-file-system";
+import { initWhisper } from "whisper.rn/index.js";
+import { getSampleAudioFile } from "./audioFiles";
+import { prepareAudioForWhisper } from "./audioPipeline";
+import { parseWavHeader } from "./audioPreprocess";
+import type { WhisperModel } from "./modelRegistry";
+
+const BENCHMARKS_FILENAME = "benchmarks.json";
+const MEMORY_SAMPLE_INTERVAL_MS = 200;
+const PROC_STATUS_URI = "file:///proc/self/status";
+
+export interface BenchmarkAudio {
+  id: string;
+  label: string;
+  getFile: () => Promise<File>;
+}
+
+export interface BenchmarkDevice {
+  // Stable across OS updates so a device's runs stay together
+  key: string;
+  label: string;
+  os: string;
+}
+
+export interface BenchmarkResult {
+  runId: string;
+  modelId: string;
+  modelLabel: string;
+  audioId: string;
+  audioDurationMs: number;
+  loadMs: number;
+  transcribeMs: number;
+  // Transcription time divided by audio duration; below 1 is faster than real time
+  realTimeFactor: number;
+  baselineMemoryMB: number | null;
+  peakMemoryMB: number | null;
+  device: BenchmarkDevice;
+  createdAt: number;
+}
+
+export type BenchmarkStage = "loading" | "transcribing";
+
+// Clips every model is measured on; add more here to extend the set
+export const BENCHMARK_AUDIO: BenchmarkAudio[] = [
+  { id: "jfk", label: "JFK sample", getFile: getSampleAudioFile },
+];
+
+export function getBenchmarkDevice(): BenchmarkDevice {
+  const label =
+    [Device.manufacturer, Device.modelName].filter(Boolean).join(" ") ||
+    Device.deviceName ||
+    Platform.OS;
+  return {
+    key: `${Platform.OS}:${Device.modelId ?? label}`,
+    label,
+    os: `${Device.osName ?? Platform.OS} ${
+      Device.osVersion ?? Platform.Version
+    }`,
+  };
+}
+
+/** Resident memory of the app process in MB, or null where it can't be read. */
+export function readResidentMemoryMB(): number | null {
+  if (Platform.OS !== "android") return null;
+  try {
+    const status = new File(PROC_STATUS_URI).textSync();
+    const match = status.match(/^VmRSS:\s+(\d+)\s+kB/m);
+    return match ? Number(match[1]) / 1024 : null;
+  } catch (error) {
+    console.warn("Failed to read process memory:", error);
+    return null;
+  }
+}
+
+function startMemorySampler() {
+  const baseline = readResidentMemoryMB();
+  let peak = baseline;
+  const timer =
+    baseline === null
+      ? null
+      : setInterval(() => {
+          const current = readResidentMemoryMB();
+          if (current !== null && (peak === null || current > peak)) {
+            peak = current;
+          }
+        }, MEMORY_SAMPLE_INTERVAL_MS);
+  return {
+    baseline,
+    stop() {
+      if (timer) clearInterval(timer);
+      const current = readResidentMemoryMB();
+      return current !== null && peak !== null ? Math.max(peak, current) : peak;
+    },
+  };
+}
+
+// Preprocessed files are 16 kHz mono 16-bit WAV, so the duration is in the header
+function getWavDurationMs(file: File) {
+  const handle = file.open();
+  try {
+    const format = parseWavHeader(handle.readBytes(Math.min(file.size, 4096)));
+    return (format.dataLength / format.blockAlign / format.sampleRate) * 1000;
+  } finally {
+    handle.close();
+  }
+}
+
+/**
+ * Loads `model` from `modelPath`, transcribes every benchmark clip and
+ * releases the context. Returns one result per clip.
+ */
+export async function benchmarkModel(
+  model: WhisperModel,
+  modelPath: string,
+  runId: string,
+  onStage?: (stage: BenchmarkStage, audio?: BenchmarkAudio) => void
+): Promise<BenchmarkResult[]> {
+  const device = getBenchmarkDevice();
+  const sampler = startMemorySampler();
+  const results: Omit<BenchmarkResult, "peakMemoryMB">[] = [];
+  let peakMemoryMB: number | null;
+
+  // The sampler is stopped even when the model fails to load
+  try {
+    onStage?.("loading");
+    const loadStart = Date.now();
+    const context = await initWhisper({ filePath: modelPath });
+    const loadMs = Date.now() - loadStart;
+
+    try {
+      for (const audio of BENCHMARK_AUDIO) {
+        const prepared = await prepareAudioForWhisper(await audio.getFile());
+        const audioDurationMs = getWavDurationMs(prepared.file);
+
+        onStage?.("transcribing", audio);
+        const transcribeStart = Date.now();
+        // The set is English, so detection is skipped to keep runs comparable
+        const { promise } = context.transcribe(prepared.file.uri, {
+          language: "en",
+        });
+        await promise;
+        const transcribeMs = Date.now() - transcribeStart;
+
+        results.push({
+          runId,
+          modelId: model.id,
+          modelLabel: model.label,
+          audioId: audio.id,
+          audioDurationMs,
+          loadMs,
+          transcribeMs,
+          realTimeFactor:
+            audioDurationMs > 0 ? transcribeMs / audioDurationMs : 0,
+          baselineMemoryMB: sampler.baseline,
+          device,
+          createdAt: Date.now(),
+        });
+      }
+    } finally {
+      await context.release();
+    }
+  } finally {
+    peakMemoryMB = sampler.stop();
+  }
+
+  return results.map((result) => ({ ...result, peakMemoryMB }));
+}
+
+export const createBenchmarkRunId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const getBenchmarksFile = (directory: Directory) =>
+  new File(directory, BENCHMARKS_FILENAME);
+
+export function readBenchmarkResults(directory: Directory): BenchmarkResult[] {
+  const file = getBenchmarksFile(directory);
+  try {
+    if (!file.exists) return [];
+    const parsed = JSON.parse(file.textSync());
+    return Array.isArray(parsed?.results) ? parsed.results : [];
+  } catch (error) {
+    console.warn("Failed to read benchmark results:", error);
+    return [];
+  }
+}
+
+export function writeBenchmarkResults(
+  directory: Directory,
+  results: BenchmarkResult[]
+) {
+  try {
+    directory.create({ idempotent: true, intermediates: true });
+    const file = getBenchmarksFile(directory);
+    if (!file.exists) file.create();
+    file.write(JSON.stringify({ version: 1, results }));
+  } catch (error) {
+    console.warn("Failed to write benchmark results:", error);
+  }
+}
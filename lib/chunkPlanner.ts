@@ -0,0 +1,109 @@
+/**
+ * Splits long audio into chunks for chunked file transcription.
+ *
+ * Chunks end in silence so no word is cut in half. With Silero VAD the cuts go
+ * into the gaps between detected speech and silence-only stretches are never
+ * transcribed; without it the quietest moment before the chunk limit is used,
+ * measured from frame levels. Everything here works on plain numbers so it can
+ * be checked without a device.
+ */
+
+// Whisper decodes 30s windows; longer chunks would decode a window and a sliver
+export const MAX_CHUNK_MS = 30_000;
+// How far back from the limit a chunk may end to land in silence
+const SILENCE_SEARCH_MS = 10_000;
+
+export interface AudioChunk {
+  startMs: number;
+  endMs: number;
+}
+
+export interface SpeechSpan {
+  startMs: number;
+  endMs: number;
+}
+
+// Cuts a span that is longer than a chunk into equal pieces
+function splitSpan(span: SpeechSpan, maxMs: number): AudioChunk[] {
+  const length = span.endMs - span.startMs;
+  const count = Math.ceil(length / maxMs);
+  const size = length / count;
+  return Array.from({ length: count }, (_, index) => ({
+    startMs: Math.round(span.startMs + index * size),
+    endMs:
+      index === count - 1
+        ? span.endMs
+        : Math.round(span.startMs + (index + 1) * size),
+  }));
+}
+
+/**
+ * Groups speech spans into chunks of at most `maxMs`, cutting only between
+ * spans. A single span longer than `maxMs` is split evenly.
+ */
+export function planSpeechChunks(
+  spans: SpeechSpan[],
+  maxMs = MAX_CHUNK_MS
+): AudioChunk[] {
+  const chunks: AudioChunk[] = [];
+  let current: AudioChunk | null = null;
+  const sorted = spans
+    .filter((span) => span.endMs > span.startMs)
+    .sort((a, b) => a.startMs - b.startMs);
+
+  for (const span of sorted) {
+    if (current && span.endMs - current.startMs <= maxMs) {
+      current.endMs = Math.max(current.endMs, span.endMs);
+      continue;
+    }
+    if (current) chunks.push(current);
+    if (span.endMs - span.startMs > maxMs) {
+      const pieces = splitSpan(span, maxMs);
+      chunks.push(...pieces.slice(0, -1));
+      current = pieces[pieces.length - 1];
+    } else {
+      current = { ...span };
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Chunks `durationMs` of audio, ending each chunk on the quietest frame in the
+ * last `SILENCE_SEARCH_MS` before the limit. `levels` holds one RMS level per
+ * `frameMs` of audio.
+ */
+export function planSilenceChunks(
+  levels: Float32Array,
+  frameMs: number,
+  durationMs: number,
+  maxMs = MAX_CHUNK_MS
+): AudioChunk[] {
+  const chunks: AudioChunk[] = [];
+  const searchMs = Math.min(SILENCE_SEARCH_MS, maxMs / 2);
+  let startMs = 0;
+
+  while (durationMs - startMs > maxMs) {
+    const first = Math.ceil((startMs + maxMs - searchMs) / frameMs);
+    const last = Math.floor((startMs + maxMs) / frameMs) - 1;
+    let quietest = last;
+    for (let frame = last; frame >= first; frame--) {
+      if (frame < levels.length && levels[frame] < levels[quietest]) {
+        quietest = frame;
+      }
+    }
+    // Cut in the middle of the quietest frame
+    const endMs = Math.min(
+      startMs + maxMs,
+      Math.round((quietest + 0.5) * frameMs)
+    );
+    chunks.push({ startMs, endMs });
+    startMs = endMs;
+  }
+  if (durationMs > startMs) chunks.push({ startMs, endMs: durationMs });
+  return chunks;
+}
+
+export const getChunksDurationMs = (chunks: AudioChunk[]) =>
+  chunks.reduce((total, chunk) => total + chunk.endMs - chunk.startMs, 0);
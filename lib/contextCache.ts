@@ -0,0 +1,124 @@
+/**
+ * Keeps the most recently used native contexts warm within a count and memory
+ * budget, releasing the rest deterministically.
+ *
+ * Memory use is estimated from the model file size, which is close to what
+ * whisper.cpp allocates for the weights.
+ */
+export interface ReleasableContext {
+  release: () => Promise<void>;
+}
+
+export interface ContextCacheOptions {
+  // Upper bound on contexts kept alive, including the active one
+  maxContexts: number;
+  memoryBudgetBytes: number;
+}
+
+interface CacheEntry<T> {
+  modelId: string;
+  context: T;
+  sizeBytes: number;
+  lastUsed: number;
+}
+
+export const DEFAULT_MAX_WARM_CONTEXTS = 2;
+export const DEFAULT_CONTEXT_MEMORY_BUDGET_MB = 1024;
+
+async function releaseContext<T extends ReleasableContext>(
+  entry: CacheEntry<T>
+) {
+  try {
+    await entry.context.release();
+    console.log(`Released Whisper context for model ${entry.modelId}`);
+  } catch (error) {
+    console.warn(
+      `Failed to release Whisper context for model ${entry.modelId}:`,
+      error
+    );
+  }
+}
+
+export function createContextCache<T extends ReleasableContext>(
+  initialOptions: ContextCacheOptions
+) {
+  let options = initialOptions;
+  let entries: CacheEntry<T>[] = [];
+  // Monotonic counter so two uses in the same millisecond still order correctly
+  let clock = 0;
+
+  const totalBytes = () =>
+    entries.reduce((total, entry) => total + entry.sizeBytes, 0);
+
+  // Drops least recently used contexts until both limits hold; the most recent one always stays
+  const evict = async () => {
+    const evicted: CacheEntry<T>[] = [];
+    while (
+      entries.length > 1 &&
+      (entries.length > Math.max(1, options.maxContexts) ||
+        totalBytes() > options.memoryBudgetBytes)
+    ) {
+      const oldest = entries.reduce((a, b) =>
+        a.lastUsed < b.lastUsed ? a : b
+      );
+      entries = entries.filter((entry) => entry !== oldest);
+      evicted.push(oldest);
+    }
+    await Promise.all(evicted.map(releaseContext));
+    return evicted.map((entry) => entry.modelId);
+  };
+
+  return {
+    get(modelId: string): T | null {
+      const entry = entries.find((e) => e.modelId === modelId);
+      if (!entry) return null;
+      entry.lastUsed = ++clock;
+      return entry.context;
+    },
+
+    has(modelId: string) {
+      return entries.some((e) => e.modelId === modelId);
+    },
+
+    /** Adds a context as the most recently used one. Returns evicted model IDs. */
+    async put(modelId: string, context: T, sizeBytes: number) {
+      const previous = entries.find((e) => e.modelId === modelId);
+      entries = entries.filter((e) => e.modelId !== modelId);
+      if (previous && previous.context !== context) {
+        await releaseContext(previous);
+      }
+      entries.push({ modelId, context, sizeBytes, lastUsed: ++clock });
+      return evict();
+    },
+
+    async remove(modelId: string) {
+      const entry = entries.find((e) => e.modelId === modelId);
+      if (!entry) return false;
+      entries = entries.filter((e) => e !== entry);
+      await releaseContext(entry);
+      return true;
+    },
+
+    async clear() {
+      const released = entries;
+      entries = [];
+      await Promise.all(released.map(releaseContext));
+    },
+
+    async configure(nextOptions: ContextCacheOptions) {
+      options = nextOptions;
+      return evict();
+    },
+
+    /** Cached model IDs, most recently used first. */
+    modelIds() {
+      return [...entries]
+        .sort((a, b) => b.lastUsed - a.lastUsed)
+        .map((entry) => entry.modelId);
+    },
+  };
+}
+
+export type ContextCache<T extends ReleasableContext> = ReturnType<
+  typeof createContextCache<T>
+>;
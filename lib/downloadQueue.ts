@@ -0,0 +1,60 @@
+/**
+ * Per-model download queue state.
+ *
+ * The hook owns the side effects; this module only decides what each entry
+ * looks like and which queued models should start next.
+ */
+export type DownloadStatus =
+  | "queued"
+  | "downloading"
+  | "paused"
+  | "verifying"
+  | "done"
+  | "failed";
+
+export interface DownloadEntry {
+  modelId: string;
+  status: DownloadStatus;
+  progress: number;
+  // Higher priorities start first; ties fall back to enqueue order
+  priority: number;
+  enqueuedAt: number;
+  error?: string;
+}
+
+export const DEFAULT_MAX_CONCURRENT_DOWNLOADS = 2;
+
+// Models the user is waiting on jump ahead of downloads queued in the background
+export const DOWNLOAD_PRIORITY = {
+  background: 0,
+  userRequested: 10,
+};
+
+export const isDownloadInFlight = (entry?: DownloadEntry) =>
+  entry?.status === "downloading" || entry?.status === "verifying";
+
+export const isDownloadPending = (entry?: DownloadEntry) =>
+  entry?.status === "queued" || isDownloadInFlight(entry);
+
+export const compareDownloadEntries = (a: DownloadEntry, b: DownloadEntry) =>
+  b.priority - a.priority || a.enqueuedAt - b.enqueuedAt;
+
+/**
+ * Returns the IDs of queued models that can start without exceeding
+ * `maxConcurrent` in-flight downloads, highest priority first.
+ */
+export function getNextDownloads(
+  entries: Record<string, DownloadEntry>,
+  maxConcurrent: number
+): string[] {
+  const all = Object.values(entries);
+  const inFlight = all.filter(isDownloadInFlight).length;
+  const slots = Math.max(0, maxConcurrent - inFlight);
+  if (slots === 0) return [];
+
+  return all
+    .filter((entry) => entry.status === "queued")
+    .sort(compareDownloadEntries)
+    .slice(0, slots)
+    .map((entry) => entry.modelId);
+}
@@ -0,0 +1,88 @@
+/**
+ * Resume snapshots for model downloads.
+ *
+ * Each in-flight or paused download keeps a small JSON file next to its
+ * `.part` file so it can be picked up again after the app is relaunched.
+ */
+import { Platform } from "react-native";
+import { Directory, File } from "expo-file-system";
+import type { WhisperModel } from "./modelRegistry";
+import { getPartialFile } from "./modelIntegrity";
+
+export interface DownloadSnapshot {
+  url: string;
+  fileUri: string;
+  resumeData?: string;
+  totalBytesWritten: number;
+  totalBytesExpectedToWrite: number;
+  updatedAt: number;
+}
+
+const getSnapshotFile = (directory: Directory, model: WhisperModel) =>
+  new File(directory, `${model.filename}.part.json`);
+
+export function readDownloadSnapshot(
+  directory: Directory,
+  model: WhisperModel
+): DownloadSnapshot | null {
+  const snapshotFile = getSnapshotFile(directory, model);
+  try {
+    if (!snapshotFile.exists) return null;
+    const snapshot = JSON.parse(snapshotFile.textSync()) as DownloadSnapshot;
+    // A snapshot for a different URL can't be resumed against the current one
+    if (snapshot.url !== model.url) {
+      clearDownloadSnapshot(directory, model);
+      return null;
+    }
+    return snapshot;
+  } catch (error) {
+    console.warn(`Failed to read download snapshot for ${model.id}:`, error);
+    return null;
+  }
+}
+
+export function writeDownloadSnapshot(
+  directory: Directory,
+  model: WhisperModel,
+  snapshot: DownloadSnapshot
+) {
+  try {
+    const snapshotFile = getSnapshotFile(directory, model);
+    if (!snapshotFile.exists) snapshotFile.create();
+    snapshotFile.write(JSON.stringify(snapshot));
+  } catch (error) {
+    console.warn(`Failed to write download snapshot for ${model.id}:`, error);
+  }
+}
+
+export function clearDownloadSnapshot(
+  directory: Directory,
+  model: WhisperModel
+) {
+  try {
+    const snapshotFile = getSnapshotFile(directory, model);
+    if (snapshotFile.exists) snapshotFile.delete();
+  } catch (error) {
+    console.warn(`Failed to clear download snapshot for ${model.id}:`, error);
+  }
+}
+
+/**
+ * Works out the resume data to hand to `createDownloadResumable`. Android's
+ * resume data is just the byte offset of the partial file, so a download that
+ * was killed without being paused can still continue from the bytes on disk.
+ * iOS needs the opaque blob produced by `pauseAsync`.
+ */
+export function getResumeData(
+  directory: Directory,
+  model: WhisperModel,
+  snapshot: DownloadSnapshot | null
+): string | undefined {
+  const partialFile = getPartialFile(directory, model);
+  if (!partialFile.exists) return undefined;
+
+  if (Platform.OS === "android") {
+    return partialFile.size > 0 ? String(partialFile.size) : undefined;
+  }
+  return snapshot?.resumeData;
+}
@@ -0,0 +1,213 @@
+/**
+ * Accuracy evaluation: audio files paired with reference transcripts.
+ *
+ * The evaluation set is the bundled JFK sample plus any pairs the user adds
+ * (an audio file and a plain-text reference). A run transcribes every pair
+ * with the given `WhisperContext` and scores it with `wer.ts`. Sets and runs
+ * are kept under `whisper-app-files/evaluation` so models and settings can be
+ * compared later.
+ */
+import { Directory, File } from "expo-file-system";
+import type { TranscribeOptions, WhisperContext } from "whisper.rn/index.js";
+import { getSampleAudioFile, importAudioFile } from "./audioFiles";
+import { prepareAudioForWhisper } from "./audioPipeline";
+import {
+  combineErrorRates,
+  evaluateTranscript,
+  type ErrorCounts,
+  type TranscriptEvaluation,
+} from "./wer";
+
+const EVALUATION_DIRECTORY_NAME = "evaluation";
+const PAIRS_FILENAME = "pairs.json";
+const RUNS_FILENAME = "runs.json";
+// Older runs are dropped so the file stays small
+const MAX_SAVED_RUNS = 50;
+
+export const SAMPLE_PAIR_ID = "jfk";
+
+export interface EvaluationPair {
+  id: string;
+  label: string;
+  // Missing for the bundled sample, which is resolved at run time
+  audioUri?: string;
+  reference: string;
+}
+
+export interface EvaluationItemResult extends TranscriptEvaluation {
+  pairId: string;
+  label: string;
+  reference: string;
+  hypothesis: string;
+}
+
+export interface EvaluationRun {
+  id: string;
+  modelId: string;
+  language: string;
+  createdAt: number;
+  items: EvaluationItemResult[];
+  // Totals across every item
+  wer: ErrorCounts;
+  cer: ErrorCounts;
+}
+
+export const SAMPLE_PAIR: EvaluationPair = {
+  id: SAMPLE_PAIR_ID,
+  label: "JFK sample",
+  reference:
+    "And so, my fellow Americans, ask not what your country can do for you, ask what you can do for your country.",
+};
+
+const getEvaluationDirectory = (appDirectory: Directory) =>
+  new Directory(appDirectory, EVALUATION_DIRECTORY_NAME);
+
+function readJson<T>(file: File, fallback: T): T {
+  try {
+    if (!file.exists) return fallback;
+    return JSON.parse(file.textSync()) as T;
+  } catch (error) {
+    console.warn(`Failed to read ${file.name}:`, error);
+    return fallback;
+  }
+}
+
+function writeJson(file: File, value: unknown) {
+  if (!file.exists) file.create();
+  file.write(JSON.stringify(value));
+}
+
+/** The bundled sample followed by the user's pairs. */
+export function readEvaluationPairs(appDirectory: Directory) {
+  const file = new File(getEvaluationDirectory(appDirectory), PAIRS_FILENAME);
+  const pairs = readJson<EvaluationPair[]>(file, []);
+  return [SAMPLE_PAIR, ...(Array.isArray(pairs) ? pairs : [])];
+}
+
+function writeEvaluationPairs(
+  appDirectory: Directory,
+  pairs: EvaluationPair[]
+) {
+  const directory = getEvaluationDirectory(appDirectory);
+  directory.create({ idempotent: true, intermediates: true });
+  writeJson(
+    new File(directory, PAIRS_FILENAME),
+    pairs.filter((pair) => pair.id !== SAMPLE_PAIR_ID)
+  );
+}
+
+/**
+ * Asks for an audio file, then for its reference transcript as a text file.
+ * Returns the updated pair list, or null when either picker was dismissed.
+ */
+export async function importEvaluationPair(appDirectory: Directory) {
+  const imported = await importAudioFile();
+  if (!imported) return null;
+
+  let picked: Awaited<ReturnType<typeof File.pickFileAsync>> | null;
+  try {
+    picked = await File.pickFileAsync(undefined, "text/plain");
+  } catch (error) {
+    // Dismissing the picker rejects instead of resolving empty
+    console.log("Reference picker closed:", error);
+    picked = null;
+  }
+  const referenceFile = Array.isArray(picked) ? picked[0] : picked;
+  if (!referenceFile) {
+    imported.file.delete();
+    return null;
+  }
+  const reference = new File(referenceFile.uri).textSync().trim();
+  if (!reference) {
+    imported.file.delete();
+    throw new Error("The reference transcript is empty");
+  }
+
+  const pairs = [
+    ...readEvaluationPairs(appDirectory),
+    {
+      id: `${Date.now().toString(36)}`,
+      label: imported.originalName,
+      audioUri: imported.file.uri,
+      reference,
+    },
+  ];
+  writeEvaluationPairs(appDirectory, pairs);
+  return pairs;
+}
+
+export function removeEvaluationPair(appDirectory: Directory, id: string) {
+  const pairs = readEvaluationPairs(appDirectory);
+  const pair = pairs.find((p) => p.id === id);
+  if (pair?.audioUri) {
+    const audio = new File(pair.audioUri);
+    if (audio.exists) audio.delete();
+  }
+  const remaining = pairs.filter((p) => p.id !== id);
+  writeEvaluationPairs(appDirectory, remaining);
+  return remaining;
+}
+
+const getPairAudio = async (pair: EvaluationPair) =>
+  pair.audioUri ? new File(pair.audioUri) : getSampleAudioFile();
+
+/** Transcribes every pair and scores it against its reference. */
+export async function runEvaluation(
+  context: WhisperContext,
+  pairs: EvaluationPair[],
+  options: TranscribeOptions & { modelId: string },
+  onItem?: (index: number, pair: EvaluationPair) => void
+): Promise<EvaluationRun> {
+  const { modelId, ...transcribeOptions } = options;
+  const items: EvaluationItemResult[] = [];
+
+  for (const [index, pair] of pairs.entries()) {
+    onItem?.(index, pair);
+    const prepared = await prepareAudioForWhisper(await getPairAudio(pair));
+    const { promise } = context.transcribe(
+      prepared.file.uri,
+      transcribeOptions
+    );
+    const { result } = await promise;
+    const hypothesis = result.trim();
+    items.push({
+      pairId: pair.id,
+      label: pair.label,
+      reference: pair.reference,
+      hypothesis,
+      ...evaluateTranscript(pair.reference, hypothesis),
+    });
+  }
+
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    modelId,
+    language: transcribeOptions.language ?? "auto",
+    createdAt: Date.now(),
+    items,
+    wer: combineErrorRates(items.map((item) => item.wer)),
+    cer: combineErrorRates(items.map((item) => item.cer)),
+  };
+}
+
+export function readEvaluationRuns(appDirectory: Directory): EvaluationRun[] {
+  const file = new File(getEvaluationDirectory(appDirectory), RUNS_FILENAME);
+  const runs = readJson<EvaluationRun[]>(file, []);
+  return Array.isArray(runs) ? runs : [];
+}
+
+/** Saves `run` ahead of earlier runs and returns the saved list. */
+export function saveEvaluationRun(appDirectory: Directory, run: EvaluationRun) {
+  const runs = [run, ...readEvaluationRuns(appDirectory)].slice(
+    0,
+    MAX_SAVED_RUNS
+  );
+  try {
+    const directory = getEvaluationDirectory(appDirectory);
+    directory.create({ idempotent: true, intermediates: true });
+    writeJson(new File(directory, RUNS_FILENAME), runs);
+  } catch (error) {
+    console.warn("Failed to save evaluation run:", error);
+  }
+  return runs;
+}
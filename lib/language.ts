@@ -0,0 +1,175 @@
+/**
+ * Spoken language selection and detection.
+ *
+ * English-only models always transcribe in English. Multilingual models can
+ * pin a language or use "auto", in which case whisper.cpp picks one per pass.
+ * whisper.rn doesn't expose the detector's probabilities, so confidence is the
+ * share of independent passes (file windows or live slices) that agree.
+ */
+import { Directory, File } from "expo-file-system";
+import type { TranscribeOptions, WhisperContext } from "whisper.rn/index.js";
+import type { WhisperModel } from "./modelRegistry";
+
+export const AUTO_LANGUAGE = "auto";
+
+export const WHISPER_LANGUAGES: Record<string, string> = {
+  en: "English",
+  es: "Spanish",
+  pt: "Portuguese",
+  fr: "French",
+  de: "German",
+  it: "Italian",
+  nl: "Dutch",
+  pl: "Polish",
+  uk: "Ukrainian",
+  ru: "Russian",
+  tr: "Turkish",
+  ar: "Arabic",
+  hi: "Hindi",
+  ja: "Japanese",
+  ko: "Korean",
+  zh: "Chinese",
+  vi: "Vietnamese",
+  id: "Indonesian",
+  sv: "Swedish",
+  ca: "Catalan",
+};
+
+export interface LanguageDetection {
+  language: string;
+  // Share of samples that agreed on `language` (0-1)
+  confidence: number;
+  samples: number;
+}
+
+const PREFERENCES_FILENAME = "language-preferences.json";
+// Each detection window gets at least this much audio so the detector has speech to work with
+const MIN_DETECTION_WINDOW_MS = 3000;
+const MAX_DETECTION_WINDOWS = 3;
+
+export const getLanguageLabel = (code: string) =>
+  code === AUTO_LANGUAGE ? "Auto" : WHISPER_LANGUAGES[code] ?? code;
+
+export const getLanguageOptions = (model?: WhisperModel | null) =>
+  model?.capabilities.multilingual
+    ? [AUTO_LANGUAGE, ...Object.keys(WHISPER_LANGUAGES)]
+    : ["en"];
+
+// Falls back to "auto" (or English for English-only models) when the stored choice no longer applies
+export function resolveLanguage(
+  model: WhisperModel | null | undefined,
+  preferred?: string
+) {
+  const options = getLanguageOptions(model);
+  if (preferred && options.includes(preferred)) return preferred;
+  return options[0];
+}
+
+/** Picks the most common language among the samples. */
+export function tallyLanguages(samples: string[]): LanguageDetection | null {
+  const votes = samples.filter(Boolean);
+  if (votes.length === 0) return null;
+
+  const counts = new Map<string, number>();
+  votes.forEach((language) =>
+    counts.set(language, (counts.get(language) ?? 0) + 1)
+  );
+  const [language, count] = [...counts.entries()].reduce((best, entry) =>
+    entry[1] > best[1] ? entry : best
+  );
+  return { language, confidence: count / votes.length, samples: votes.length };
+}
+
+export const formatDetection = (detection: LanguageDetection) =>
+  `${getLanguageLabel(detection.language)} · ${Math.round(
+    detection.confidence * 100
+  )}%${detection.samples > 1 ? ` of ${detection.samples}` : ""}`;
+
+/**
+ * Re-runs detection on a few windows spread across the transcribed segments
+ * and tallies them with the language of the full pass.
+ */
+export async function detectFileLanguage(
+  context: WhisperContext,
+  filePath: string,
+  firstPass: { language: string; segments: { t0: number; t1: number }[] },
+  options?: TranscribeOptions
+): Promise<LanguageDetection | null> {
+  const { segments } = firstPass;
+  const picks =
+    segments.length <= 1
+      ? []
+      : Array.from(
+          new Set(
+            Array.from({ length: MAX_DETECTION_WINDOWS }, (_, index) =>
+              Math.round(
+                (index * (segments.length - 1)) / (MAX_DETECTION_WINDOWS - 1)
+              )
+            )
+          )
+        );
+
+  const samples = [firstPass.language];
+  for (const index of picks) {
+    // Segment times are in centiseconds; transcribe windows are in milliseconds
+    const offset = segments[index].t0 * 10;
+    const duration = Math.max(
+      MIN_DETECTION_WINDOW_MS,
+      (segments[index].t1 - segments[index].t0) * 10
+    );
+    try {
+      const { promise } = context.transcribe(filePath, {
+        ...options,
+        language: AUTO_LANGUAGE,
+        offset,
+        duration,
+      });
+      const { language } = await promise;
+      samples.push(language);
+    } catch (error) {
+      console.warn(`Language detection window at ${offset}ms failed:`, error);
+    }
+  }
+  return tallyLanguages(samples);
+}
+
+const getPreferencesFile = (directory: Directory) =>
+  new File(directory, PREFERENCES_FILENAME);
+
+export function readLanguagePreferences(
+  directory: Directory
+): Record<string, string> {
+  const file = getPreferencesFile(directory);
+  try {
+    if (!file.exists) return {};
+    const parsed = JSON.parse(file.textSync());
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch (error) {
+    console.warn("Failed to read language preferences:", error);
+    return {};
+  }
+}
+
+export function writeLanguagePreferences(
+  directory: Directory,
+  preferences: Record<string, string>
+) {
+  try {
+    directory.create({ idempotent: true, intermediates: true });
+    const file = getPreferencesFile(directory);
+    if (!file.exists) file.create();
+    file.write(JSON.stringify(preferences));
+  } catch (error) {
+    console.warn("Failed to write language preferences:", error);
+  }
+}
+
+// Whether a result is text in the spoken language or an English translation of it
+export type TranscriptTask = "transcription" | "translation";
+
+// whisper.cpp can only translate into English, and only multilingual models were trained for it
+export const canTranslate = (model?: WhisperModel | null) =>
+  model?.capabilities.multilingual === true;
+
+export const getTaskLabel = (task: TranscriptTask) =>
+  task === "translation" ? "Translated to English" : "Transcription";
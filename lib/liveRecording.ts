@@ -0,0 +1,161 @@
+/**
+ * Audio of live sessions, saved as 16 kHz mono WAV under
+ * `whisper-app-files/recordings`.
+ *
+ * whisper.rn writes a capture run's audio to `audioOutputPath` once the run
+ * ends, and a session can span several runs (see `liveSession.ts`), so every
+ * run records to its own part file. `finish` waits for the last part and joins
+ * them into one WAV that the saved transcript links to.
+ */
+import { Directory, File } from "expo-file-system";
+import { getAppDirectory } from "./appFiles";
+import { encodeWavHeader, parseWavHeader } from "./audioPreprocess";
+
+const RECORDINGS_DIRECTORY_NAME = "recordings";
+// Enough for the RIFF chunks whisper.rn writes before the data chunk
+const HEADER_READ_BYTES = 4 * 1024;
+const CHUNK_BYTES = 512 * 1024;
+// The native side writes a run's WAV just before it reports the run ended
+const PART_WAIT_MS = 5000;
+const PART_POLL_MS = 250;
+
+export const getRecordingsDirectory = () =>
+  new Directory(getAppDirectory(), RECORDINGS_DIRECTORY_NAME);
+
+/** whisper.rn opens `audioOutputPath` with fopen, so it needs a path, not a URI. */
+const toNativePath = (file: File) =>
+  decodeURIComponent(file.uri.replace(/^file:\/\//, ""));
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Resolves once the part exists and its size stopped changing
+async function waitForPart(part: File) {
+  let lastSize = -1;
+  for (let waited = 0; waited < PART_WAIT_MS; waited += PART_POLL_MS) {
+    const file = new File(part.uri);
+    if (file.exists && file.size > 44 && file.size === lastSize) return true;
+    lastSize = file.exists ? file.size : -1;
+    await sleep(PART_POLL_MS);
+  }
+  return new File(part.uri).exists && new File(part.uri).size > 44;
+}
+
+function readFormat(file: File) {
+  const handle = file.open();
+  try {
+    return parseWavHeader(
+      handle.readBytes(Math.min(HEADER_READ_BYTES, file.size)),
+      file.size
+    );
+  } finally {
+    handle.close();
+  }
+}
+
+// Appends the sample data of every part; they share whisper.rn's 16 kHz mono format
+function joinParts(parts: File[], destination: File) {
+  destination.create();
+  const output = destination.open();
+  try {
+    // Placeholder header, rewritten once the data length is known
+    output.writeBytes(encodeWavHeader(0));
+    let dataLength = 0;
+    for (const part of parts) {
+      const format = readFormat(part);
+      const input = part.open();
+      try {
+        input.offset = format.dataOffset;
+        let remaining = format.dataLength;
+        while (remaining > 0) {
+          const bytes = input.readBytes(Math.min(CHUNK_BYTES, remaining));
+          if (bytes.length === 0) break;
+          remaining -= bytes.length;
+          output.writeBytes(bytes);
+          dataLength += bytes.length;
+        }
+      } finally {
+        input.close();
+      }
+    }
+    output.offset = 0;
+    output.writeBytes(encodeWavHeader(dataLength));
+  } finally {
+    output.close();
+  }
+}
+
+export function createLiveRecording() {
+  const id = `live-${Date.now()}`;
+  const parts: File[] = [];
+
+  const deleteParts = () => {
+    for (const part of parts) {
+      const file = new File(part.uri);
+      if (file.exists) file.delete();
+    }
+  };
+
+  return {
+    /** Output path for the next capture run. */
+    nextPartPath() {
+      const directory = getRecordingsDirectory();
+      directory.create({ idempotent: true, intermediates: true });
+      const part = new File(directory, `${id}.part${parts.length + 1}.wav`);
+      if (part.exists) part.delete();
+      parts.push(part);
+      return toNativePath(part);
+    },
+
+    /**
+     * Joins the parts into `<id>.wav`. Returns null when no audio was
+     * written, e.g. the session stopped before capture began.
+     */
+    async finish(): Promise<File | null> {
+      const written: File[] = [];
+      for (const part of parts) {
+        if (await waitForPart(part)) written.push(new File(part.uri));
+      }
+      if (written.length === 0) {
+        deleteParts();
+        return null;
+      }
+
+      const destination = new File(getRecordingsDirectory(), `${id}.wav`);
+      if (destination.exists) destination.delete();
+      try {
+        if (written.length === 1) {
+          written[0].move(destination);
+        } else {
+          joinParts(written, destination);
+        }
+      } catch (error) {
+        // Don't link a half-written file to the transcript
+        if (destination.exists) destination.delete();
+        throw error;
+      } finally {
+        deleteParts();
+      }
+      console.log(`Saved live session audio to ${destination.uri}`);
+      return destination;
+    },
+
+    /** Removes whatever the runs wrote so far. */
+    discard: deleteParts,
+  };
+}
+
+export type LiveRecording = ReturnType<typeof createLiveRecording>;
+
+/** True for audio this module recorded, as opposed to imported files. */
+export const isLiveRecording = (uri: string) =>
+  uri.startsWith(`${getRecordingsDirectory().uri.replace(/\/$/, "")}/`);
+
+export function deleteLiveRecording(uri: string) {
+  if (!isLiveRecording(uri)) return;
+  try {
+    const file = new File(uri);
+    if (file.exists) file.delete();
+  } catch (error) {
+    console.warn(`Failed to delete live recording ${uri}:`, error);
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Keeps a live session running past whisper.rn's `realtimeAudioSec` ceiling.
+ *
+ * A single `transcribeRealtime` run ends on its own once it has captured
+ * `realtimeAudioSec` of audio. The controller watches for that final event
+ * and starts the next run straight away, so a session is a chain of runs that
+ * only ends when the user stops it or capture fails. Stops nobody asked for
+ * are reported through `onUnexpectedStop` instead of being restarted forever.
+ */
+import type { TranscribeRealtimeEvent } from "whisper.rn/index.js";
+import type { LiveTranscribeEvent } from "./liveTranscript";
+
+export interface RealtimeRun {
+  stop: () => Promise<void>;
+  subscribe: (callback: (event: TranscribeRealtimeEvent) => void) => void;
+}
+
+export interface LiveRunInfo {
+  // 0 for the first run of the session
+  index: number;
+  // Audio captured by the runs before this one
+  elapsedMs: number;
+}
+
+export interface LiveSessionHandlers {
+  onEvent: (event: LiveTranscribeEvent, run: LiveRunInfo) => void;
+  // Called before the next run starts
+  onRollover?: (run: LiveRunInfo) => void;
+  onUnexpectedStop: (message: string) => void;
+}
+
+// A run this short didn't capture anything useful; several in a row means capture is broken
+const MIN_RUN_MS = 1000;
+const MAX_SHORT_RUNS = 3;
+
+export function createLiveSessionController(
+  startRun: () => Promise<RealtimeRun>,
+  handlers: LiveSessionHandlers
+) {
+  let current: RealtimeRun | null = null;
+  let run: LiveRunInfo = { index: 0, elapsedMs: 0 };
+  let stopRequested = false;
+  let shortRuns = 0;
+
+  const end = (message: string) => {
+    current = null;
+    console.warn(`Live session stopped: ${message}`);
+    handlers.onUnexpectedStop(message);
+  };
+
+  const handleRunEnd = (event: LiveTranscribeEvent) => {
+    current = null;
+    if (stopRequested) return;
+
+    if (event.error || event.code !== 0) {
+      end(event.error || `capture failed with code ${event.code}`);
+      return;
+    }
+    // Set when whisper.rn aborted the capture, e.g. because the context was
+    // released, not by the OS
+    if (event.isStoppedByAction) {
+      end("capture was aborted");
+      return;
+    }
+
+    const runMs = event.recordingTime ?? 0;
+    shortRuns = runMs < MIN_RUN_MS ? shortRuns + 1 : 0;
+    if (shortRuns >= MAX_SHORT_RUNS) {
+      end("capture keeps ending right after it starts");
+      return;
+    }
+
+    run = { index: run.index + 1, elapsedMs: run.elapsedMs + runMs };
+    console.log(
+      `Live capture reached its limit, starting part ${run.index + 1}`
+    );
+    handlers.onRollover?.(run);
+    begin().catch((error) => end(`couldn't restart capture: ${error}`));
+  };
+
+  const begin = async () => {
+    const next = await startRun();
+    if (stopRequested) {
+      await next.stop();
+      return;
+    }
+    current = next;
+    const runIndex = run.index;
+    next.subscribe((event: LiveTranscribeEvent) => {
+      // Late events from a run that was already replaced
+      if (runIndex !== run.index) return;
+      handlers.onEvent(event, run);
+      if (!event.isCapturing) handleRunEnd(event);
+    });
+  };
+
+  return {
+    /** Starts the first run; errors are thrown to the caller. */
+    start: begin,
+
+    async stop() {
+      stopRequested = true;
+      const running = current;
+      current = null;
+      await running?.stop();
+    },
+
+    getRun: () => run,
+  };
+}
+
+export type LiveSessionController = ReturnType<
+  typeof createLiveSessionController
+>;
@@ -0,0 +1,155 @@
+/**
+ * Accumulates a live session transcript from realtime slice events.
+ *
+ * whisper.rn re-transcribes the slice that is still recording on every event
+ * and moves to a new `sliceIndex` once `realtimeAudioSliceSec` is reached. The
+ * accumulator keeps one entry per slice: earlier slices are committed and
+ * never change, only the in-progress one is replaced. Speech cut at a slice
+ * boundary is often heard by both slices, so repeated words at the start of a
+ * slice are dropped when the transcript is assembled.
+ *
+ * A session can span several `transcribeRealtime` runs (see `liveSession.ts`);
+ * `startNextRun` moves later slices and their timestamps after the earlier
+ * runs because each run counts slices and time from zero again.
+ */
+import type { TranscribeRealtimeEvent } from "whisper.rn/index.js";
+import type { TranscriptSegment } from "./transcriptStore";
+
+// whisper.rn forwards these native payload fields on every event but leaves them out of the type
+export type LiveTranscribeEvent = TranscribeRealtimeEvent & {
+  isUseSlices?: boolean;
+  sliceIndex?: number;
+};
+
+interface LiveSlice {
+  text: string;
+  segments: TranscriptSegment[];
+}
+
+// Overlap at a boundary is at most a few words of audio
+const MAX_OVERLAP_WORDS = 8;
+
+const normalizeWord = (word: string) =>
+  word.toLowerCase().replace(/[.,!?;:"“”‘’()[\]…¿¡-]+/g, "");
+
+const splitWords = (text: string) => text.split(/\s+/).filter(Boolean);
+
+/**
+ * Number of leading words in `next` that repeat the trailing words of
+ * `previous`, compared without case or punctuation.
+ */
+export function countOverlappingWords(previous: string, next: string) {
+  const tail = splitWords(previous).map(normalizeWord);
+  const head = splitWords(next).map(normalizeWord);
+  const limit = Math.min(MAX_OVERLAP_WORDS, tail.length, head.length);
+  for (let size = limit; size > 0; size--) {
+    let matches = true;
+    for (let i = 0; i < size; i++) {
+      if (!head[i] || head[i] !== tail[tail.length - size + i]) {
+        matches = false;
+        break;
+      }
+    }
+    if (matches) return size;
+  }
+  return 0;
+}
+
+// Removes `count` words from the front of the segment list, dropping emptied segments
+function dropLeadingWords(segments: TranscriptSegment[], count: number) {
+  const result: TranscriptSegment[] = [];
+  let remaining = count;
+  for (const segment of segments) {
+    if (remaining > 0) {
+      const words = splitWords(segment.text);
+      const dropped = Math.min(remaining, words.length);
+      remaining -= dropped;
+      if (dropped === words.length) continue;
+      result.push({ ...segment, text: ` ${words.slice(dropped).join(" ")}` });
+    } else {
+      result.push(segment);
+    }
+  }
+  return result;
+}
+
+const joinText = (left: string, right: string) =>
+  left && right ? `${left} ${right}` : left || right;
+
+export function createLiveTranscript() {
+  const slices = new Map<number, LiveSlice>();
+  // Highest slice key seen; everything below it is committed
+  let currentIndex = -1;
+  // Slices below this key will not change again
+  let committedBelow = 0;
+  // Key of the current run's first slice and where its timestamps start, in centiseconds
+  let runBase = 0;
+  let runOffsetCs = 0;
+
+  const assemble = (below = Infinity) => {
+    let text = "";
+    let segments: TranscriptSegment[] = [];
+    const indexes = [...slices.keys()]
+      .filter((index) => index < below)
+      .sort((a, b) => a - b);
+    for (const index of indexes) {
+      const slice = slices.get(index)!;
+      const overlap = countOverlappingWords(text, slice.text);
+      const sliceText = splitWords(slice.text).slice(overlap).join(" ");
+      text = joinText(text, sliceText);
+      segments = segments.concat(dropLeadingWords(slice.segments, overlap));
+    }
+    return { text, segments };
+  };
+
+  return {
+    /**
+     * Applies a realtime event. Returns false when the event carried no
+     * transcription for its slice.
+     */
+    update(event: LiveTranscribeEvent) {
+      const index = runBase + (event.isUseSlices ? event.sliceIndex ?? 0 : 0);
+      // Events for a slice that was already committed are late duplicates
+      if (index < currentIndex) return false;
+      const data = event.slices?.[index - runBase]?.data ?? event.data;
+      if (!data) return false;
+
+      currentIndex = index;
+      committedBelow = index;
+      slices.set(index, {
+        text: (data.result ?? "").trim(),
+        segments: (data.segments ?? []).map((segment) => ({
+          ...segment,
+          t0: segment.t0 + runOffsetCs,
+          t1: segment.t1 + runOffsetCs,
+        })),
+      });
+      return true;
+    },
+
+    /** Commits everything so far; `offsetMs` is the audio captured before the next run. */
+    startNextRun(offsetMs: number) {
+      runBase = currentIndex + 1;
+      currentIndex = runBase - 1;
+      committedBelow = runBase;
+      runOffsetCs = Math.round(offsetMs / 10);
+    },
+
+    getText: () => assemble().text,
+
+    getSegments: () => assemble().segments,
+
+    /** Segments of finished slices; they only ever grow. */
+    getCommittedSegments: () => assemble(committedBelow).segments,
+
+    clear() {
+      slices.clear();
+      currentIndex = -1;
+      committedBelow = 0;
+      runBase = 0;
+      runOffsetCs = 0;
+    },
+  };
+}
+
+export type LiveTranscript = ReturnType<typeof createLiveTranscript>;
@@ -0,0 +1,329 @@
+/**
+ * Chunked file transcription with checkpoints on disk.
+ *
+ * A job splits a file into chunks that end in silence (`chunkPlanner.ts`) and
+ * transcribes them one `transcribeData` call at a time on just that chunk's
+ * samples, so segments show up as each chunk finishes instead of after the
+ * whole file, and no call decodes more than one chunk of audio.
+ * After every chunk the job is written to `whisper-app-files/jobs/<id>.json`;
+ * if the app is killed, the job is listed again on the next launch and picks
+ * up at the first chunk that wasn't finished. Finished and cancelled jobs are
+ * deleted by the caller once the transcript is saved.
+ */
+import { Directory, File } from "expo-file-system";
+import type {
+  TranscribeOptions,
+  VadOptions,
+  WhisperContext,
+  WhisperVadContext,
+} from "whisper.rn/index.js";
+import {
+  measureWavLevels,
+  prepareAudioForWhisper,
+  readWhisperWavRange,
+} from "./audioPipeline";
+import {
+  getChunksDurationMs,
+  planSilenceChunks,
+  planSpeechChunks,
+  type AudioChunk,
+} from "./chunkPlanner";
+import type { TranscriptTask } from "./language";
+import type { TranscriptSegment } from "./transcriptStore";
+
+const JOBS_DIRECTORY_NAME = "jobs";
+// Level frames used to find silence when VAD is off
+const LEVEL_FRAME_MS = 100;
+
+// Options saved with a job; callbacks can't be restored after a restart
+export type LongformTranscribeOptions = Omit<
+  TranscribeOptions,
+  "onProgress" | "onNewSegments" | "offset" | "duration"
+>;
+
+export interface LongformJob {
+  id: string;
+  title: string;
+  // Audio the user picked, linked from the saved transcript
+  sourceUri: string;
+  // 16 kHz copy that is transcribed
+  audioUri: string;
+  modelId: string;
+  task: TranscriptTask;
+  options: LongformTranscribeOptions;
+  // "speech" when the cuts came from Silero VAD
+  chunking: "speech" | "silence";
+  chunks: AudioChunk[];
+  // Index of the first chunk that hasn't been transcribed
+  nextChunk: number;
+  // Raw results so far; tdrz models keep their speaker turn markers
+  text: string;
+  segments: TranscriptSegment[];
+  // Language Whisper reported for each finished chunk
+  languages: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface NewLongformJob {
+  title: string;
+  source: File;
+  modelId: string;
+  task: TranscriptTask;
+  options: LongformTranscribeOptions;
+  // Cuts between detected speech and skips silence when set
+  vad?: { context: WhisperVadContext; options: VadOptions } | null;
+}
+
+export interface LongformJobHandlers {
+  // Overall progress, 0-100; while a job is created, how far preparing the
+  // audio has got
+  onProgress?: (progress: number) => void;
+  // Called after each chunk is checkpointed
+  onChunk?: (job: LongformJob, segments: TranscriptSegment[]) => void;
+}
+
+export const getJobsDirectory = (appDirectory: Directory) =>
+  new Directory(appDirectory, JOBS_DIRECTORY_NAME);
+
+const getJobFile = (appDirectory: Directory, id: string) =>
+  new File(getJobsDirectory(appDirectory), `${id}.json`);
+
+const createJobId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isLongformJob = (value: unknown): value is LongformJob => {
+  if (!value || typeof value !== "object") return false;
+  const job = value as Partial<LongformJob>;
+  return (
+    typeof job.id === "string" &&
+    typeof job.audioUri === "string" &&
+    Array.isArray(job.chunks) &&
+    typeof job.nextChunk === "number" &&
+    Array.isArray(job.segments)
+  );
+};
+
+export function writeLongformJob(appDirectory: Directory, job: LongformJob) {
+  const directory = getJobsDirectory(appDirectory);
+  directory.create({ idempotent: true, intermediates: true });
+  const file = getJobFile(appDirectory, job.id);
+  if (!file.exists) file.create();
+  file.write(JSON.stringify(job));
+}
+
+export function readLongformJob(
+  appDirectory: Directory,
+  id: string
+): LongformJob | null {
+  const file = getJobFile(appDirectory, id);
+  try {
+    if (!file.exists) return null;
+    const parsed = JSON.parse(file.textSync());
+    return isLongformJob(parsed) ? parsed : null;
+  } catch (error) {
+    console.warn(`Failed to read job ${id}:`, error);
+    return null;
+  }
+}
+
+/** Jobs that still have chunks left, oldest first. Unreadable files are skipped. */
+export function listLongformJobs(appDirectory: Directory): LongformJob[] {
+  const directory = getJobsDirectory(appDirectory);
+  try {
+    if (!directory.exists) return [];
+    return directory
+      .list()
+      .filter(
+        (item): item is File =>
+          item instanceof File && item.name.endsWith(".json")
+      )
+      .flatMap((file) => {
+        try {
+          const parsed = JSON.parse(file.textSync());
+          return isLongformJob(parsed) ? [parsed] : [];
+        } catch (error) {
+          console.warn(`Failed to read job ${file.name}:`, error);
+          return [];
+        }
+      })
+      .filter((job) => job.nextChunk < job.chunks.length)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  } catch (error) {
+    console.warn("Failed to list transcription jobs:", error);
+    return [];
+  }
+}
+
+export function deleteLongformJob(appDirectory: Directory, id: string) {
+  try {
+    const file = getJobFile(appDirectory, id);
+    if (file.exists) file.delete();
+  } catch (error) {
+    console.warn(`Failed to delete job ${id}:`, error);
+  }
+}
+
+async function planChunks(
+  audio: File,
+  vad: NewLongformJob["vad"],
+  onProgress?: (fraction: number) => void
+): Promise<Pick<LongformJob, "chunking" | "chunks">> {
+  if (vad) {
+    const speech = await vad.context.detectSpeech(audio.uri, vad.options);
+    // VAD segments are in centiseconds
+    const spans = speech.map((segment) => ({
+      startMs: Math.max(0, Math.floor(segment.t0 * 10)),
+      endMs: Math.ceil(segment.t1 * 10),
+    }));
+    return { chunking: "speech", chunks: planSpeechChunks(spans) };
+  }
+  const { levels, durationMs } = await measureWavLevels(
+    audio,
+    LEVEL_FRAME_MS,
+    onProgress
+  );
+  return {
+    chunking: "silence",
+    chunks: planSilenceChunks(levels, LEVEL_FRAME_MS, durationMs),
+  };
+}
+
+/**
+ * Prepares the audio, plans the chunks and saves the job. Returns null when
+ * VAD found no speech at all.
+ */
+export async function createLongformJob(
+  appDirectory: Directory,
+  input: NewLongformJob,
+  { onProgress }: Pick<LongformJobHandlers, "onProgress"> = {}
+): Promise<LongformJob | null> {
+  // Without VAD the level scan is the last fifth of the preparation
+  const prepareShare = input.vad ? 1 : 0.8;
+  const prepared = await prepareAudioForWhisper(
+    input.source,
+    undefined,
+    (fraction) => onProgress?.(fraction * prepareShare * 100)
+  );
+  const { chunking, chunks } = await planChunks(
+    prepared.file,
+    input.vad,
+    (fraction) => onProgress?.((prepareShare + fraction * 0.2) * 100)
+  );
+  if (chunks.length === 0) return null;
+
+  const now = Date.now();
+  const job: LongformJob = {
+    id: createJobId(),
+    title: input.title,
+    sourceUri: input.source.uri,
+    audioUri: prepared.file.uri,
+    modelId: input.modelId,
+    task: input.task,
+    options: input.options,
+    chunking,
+    chunks,
+    nextChunk: 0,
+    text: "",
+    segments: [],
+    languages: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  writeLongformJob(appDirectory, job);
+  console.log(
+    `Planned ${chunks.length} ${chunking} chunk${
+      chunks.length === 1 ? "" : "s"
+    } for ${input.title}`
+  );
+  return job;
+}
+
+/**
+ * Transcribes the job's remaining chunks in order. Mirrors whisper.rn's
+ * `transcribe`: `stop` aborts the chunk in progress and the promise resolves
+ * with `isAborted`. The checkpoint is left on disk either way.
+ */
+export function runLongformJob(
+  appDirectory: Directory,
+  context: WhisperContext,
+  initial: LongformJob,
+  handlers: LongformJobHandlers = {}
+) {
+  let job = initial;
+  let aborted = false;
+  let stopChunk: (() => Promise<void>) | null = null;
+  const totalMs = getChunksDurationMs(job.chunks);
+
+  const run = async () => {
+    // The 16 kHz copy is a cache and may have been cleared since the job started
+    if (!new File(job.audioUri).exists) {
+      const prepared = await prepareAudioForWhisper(new File(job.sourceUri));
+      job = { ...job, audioUri: prepared.file.uri };
+    }
+
+    while (job.nextChunk < job.chunks.length && !aborted) {
+      const chunk = job.chunks[job.nextChunk];
+      const doneMs = getChunksDurationMs(job.chunks.slice(0, job.nextChunk));
+      const chunkMs = chunk.endMs - chunk.startMs;
+      const report = (chunkProgress: number) =>
+        handlers.onProgress?.(
+          totalMs > 0
+            ? ((doneMs + (chunkMs * chunkProgress) / 100) / totalMs) * 100
+            : 0
+        );
+      report(0);
+
+      const { stop, promise } = context.transcribeData(
+        readWhisperWavRange(new File(job.audioUri), chunk.startMs, chunk.endMs),
+        { ...job.options, onProgress: report }
+      );
+      stopChunk = stop;
+      const { result, language, segments, isAborted } = await promise;
+      stopChunk = null;
+      if (isAborted || aborted) {
+        aborted = true;
+        break;
+      }
+      // Slice times start at zero; t0/t1 are in centiseconds
+      const shifted = segments.map((segment) => ({
+        text: segment.text,
+        t0: segment.t0 + chunk.startMs / 10,
+        t1: segment.t1 + chunk.startMs / 10,
+      }));
+
+      const text = result.trim();
+      job = {
+        ...job,
+        nextChunk: job.nextChunk + 1,
+        text: text ? (job.text ? `${job.text} ${text}` : text) : job.text,
+        segments: job.segments.concat(shifted),
+        languages: job.languages.concat(language),
+        updatedAt: Date.now(),
+      };
+      try {
+        writeLongformJob(appDirectory, job);
+      } catch (error) {
+        // The job keeps going; only resuming after a crash is affected
+        console.warn(`Failed to checkpoint job ${job.id}:`, error);
+      }
+      handlers.onChunk?.(job, shifted);
+    }
+    return { job, isAborted: aborted };
+  };
+
+  return {
+    stop: async () => {
+      aborted = true;
+      await stopChunk?.();
+    },
+    promise: run(),
+  };
+}
+
+export const getJobProgress = (job: LongformJob) => {
+  const totalMs = getChunksDurationMs(job.chunks);
+  return totalMs > 0
+    ? (getChunksDurationMs(job.chunks.slice(0, job.nextChunk)) / totalMs) * 100
+    : 0;
+};
@@ -0,0 +1,204 @@
+/**
+ * Integrity checks for downloaded ggml model files.
+ *
+ * A model is only considered usable once its size, ggml header and digests
+ * match what the registry expects. The registry pins a size and SHA-256 for
+ * each model; a SHA-1 is checked as well when one is listed. Successful checks
+ * are stamped next to the model so we don't re-hash gigabytes of weights on
+ * every launch.
+ */
+import { Directory, File } from "expo-file-system";
+import { sha256 } from "@noble/hashes/sha2.js";
+import { sha1 } from "@noble/hashes/legacy.js";
+import { bytesToHex } from "@noble/hashes/utils.js";
+import type { WhisperModel } from "./modelRegistry";
+
+// whisper.cpp rejects any file that doesn't start with GGML_FILE_MAGIC (0x67676d6c, little-endian)
+const GGML_MAGIC = [0x6c, 0x6d, 0x67, 0x67];
+const HASH_CHUNK_BYTES = 4 * 1024 * 1024;
+const VERIFIED_STAMP_SUFFIX = ".verified";
+const QUARANTINE_DIRECTORY_NAME = "quarantine";
+
+export type ModelVerificationResult =
+  | { ok: true; digest: string | null }
+  | { ok: false; reason: string };
+
+interface VerifiedStamp {
+  size: number;
+  modificationTime: number | null;
+  digest: string | null;
+}
+
+export const getPartialFile = (directory: Directory, model: WhisperModel) =>
+  new File(directory, `${model.filename}.part`);
+
+const getStampFile = (file: File) =>
+  new File(file.parentDirectory, `${file.name}${VERIFIED_STAMP_SUFFIX}`);
+
+export type HashAlgorithm = "sha256" | "sha1";
+
+/**
+ * Streams a file through each of `algorithms` in one pass of fixed-size
+ * chunks, yielding to the JS event loop between chunks so the UI stays
+ * responsive. Returns the hex digests by algorithm.
+ */
+export async function hashFile(
+  file: File,
+  algorithms: HashAlgorithm[],
+  onProgress?: (fraction: number) => void
+): Promise<Partial<Record<HashAlgorithm, string>>> {
+  const hashers = algorithms.map((algorithm) => ({
+    algorithm,
+    hasher: algorithm === "sha256" ? sha256.create() : sha1.create(),
+  }));
+  const handle = file.open();
+  try {
+    const total = handle.size ?? 0;
+    let read = 0;
+    while (read < total) {
+      const chunk = handle.readBytes(Math.min(HASH_CHUNK_BYTES, total - read));
+      if (chunk.length === 0) break;
+      for (const { hasher } of hashers) hasher.update(chunk);
+      read += chunk.length;
+      onProgress?.(total > 0 ? read / total : 1);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  } finally {
+    handle.close();
+  }
+  return Object.fromEntries(
+    hashers.map(({ algorithm, hasher }) => [
+      algorithm,
+      bytesToHex(hasher.digest()),
+    ])
+  );
+}
+
+const hasGgmlHeader = (file: File) => {
+  const handle = file.open();
+  try {
+    const header = handle.readBytes(GGML_MAGIC.length);
+    return GGML_MAGIC.every((byte, index) => header[index] === byte);
+  } finally {
+    handle.close();
+  }
+};
+
+/**
+ * Checks a model file against the registry entry. `expectedSize` lets callers
+ * pass the Content-Length reported by the server for custom models that don't
+ * pin a size themselves; a pinned `size` always wins.
+ */
+export async function verifyModelFile(
+  model: WhisperModel,
+  file: File,
+  options?: {
+    expectedSize?: number;
+    onProgress?: (fraction: number) => void;
+  }
+): Promise<ModelVerificationResult> {
+  const info = file.info();
+  if (!info.exists) {
+    return { ok: false, reason: "File not found" };
+  }
+
+  const size = Number(info.size) || 0;
+  const expectedSize = model.size ?? options?.expectedSize;
+  if (size === 0) {
+    return { ok: false, reason: "File is empty" };
+  }
+  if (expectedSize && size !== expectedSize) {
+    return {
+      ok: false,
+      reason: `Expected ${expectedSize} bytes but found ${size}`,
+    };
+  }
+  if (!hasGgmlHeader(file)) {
+    return { ok: false, reason: "Missing ggml header" };
+  }
+
+  const expected = (
+    [
+      ["sha256", model.sha256],
+      ["sha1", model.sha1],
+    ] as const
+  ).filter((entry): entry is readonly [HashAlgorithm, string] => !!entry[1]);
+  if (expected.length === 0) {
+    return { ok: true, digest: null };
+  }
+
+  const digests = await hashFile(
+    file,
+    expected.map(([algorithm]) => algorithm),
+    options?.onProgress
+  );
+  for (const [algorithm, value] of expected) {
+    if (digests[algorithm] !== value.toLowerCase()) {
+      return {
+        ok: false,
+        reason: `${algorithm.toUpperCase()} mismatch (got ${
+          digests[algorithm]
+        })`,
+      };
+    }
+  }
+  return { ok: true, digest: digests.sha256 ?? digests.sha1 ?? null };
+}
+
+/**
+ * Returns true when the file still matches the stamp written after its last
+ * successful verification.
+ */
+export function hasValidVerificationStamp(file: File) {
+  const stampFile = getStampFile(file);
+  try {
+    if (!stampFile.exists) return false;
+    const stamp = JSON.parse(stampFile.textSync()) as VerifiedStamp;
+    return (
+      stamp.size === file.size &&
+      stamp.modificationTime === file.modificationTime
+    );
+  } catch (error) {
+    console.warn(`Failed to read verification stamp for ${file.uri}:`, error);
+    return false;
+  }
+}
+
+export function writeVerificationStamp(file: File, digest: string | null) {
+  const stamp: VerifiedStamp = {
+    size: file.size,
+    modificationTime: file.modificationTime,
+    digest,
+  };
+  try {
+    const stampFile = getStampFile(file);
+    if (!stampFile.exists) stampFile.create();
+    stampFile.write(JSON.stringify(stamp));
+  } catch (error) {
+    console.warn(`Failed to write verification stamp for ${file.uri}:`, error);
+  }
+}
+
+export function clearVerificationStamp(file: File) {
+  const stampFile = getStampFile(file);
+  try {
+    if (stampFile.exists) stampFile.delete();
+  } catch (error) {
+    console.warn(`Failed to clear verification stamp for ${file.uri}:`, error);
+  }
+}
+
+/**
+ * Moves a file that failed verification out of the model directory so it is
+ * never handed to `initWhisper`. Returns the new location.
+ */
+export function quarantineModelFile(directory: Directory, file: File) {
+  const quarantine = new Directory(directory, QUARANTINE_DIRECTORY_NAME);
+  quarantine.create({ idempotent: true, intermediates: true });
+
+  const destination = new File(quarantine, file.name);
+  if (destination.exists) destination.delete();
+  clearVerificationStamp(file);
+  new File(file.uri).move(destination);
+  return destination.uri;
+}
@@ -0,0 +1,461 @@
+/**
+ * OpenAI's Whisper models converted to ggml format for use with whisper.cpp
+ *
+ * Download from https://huggingface.co/ggerganov/whisper.cpp/tree/main
+ *
+ * The registry is built from the defaults below, the bundled JSON manifest and
+ * any models the user registered on this device, in that order of precedence.
+ */
+import { Directory, File } from "expo-file-system";
+import manifest from "./modelManifest.json";
+
+export type ModelSource = "builtin" | "manifest" | "custom";
+
+export const QUANTIZATIONS = ["q5_0", "q5_1", "q8_0"] as const;
+export type Quantization = (typeof QUANTIZATIONS)[number];
+
+// A quantized build of a model published alongside the full-precision file
+export interface ModelVariant {
+  quantization: Quantization;
+  approxSizeMB: number;
+  size?: number;
+  sha256?: string;
+  sha1?: string;
+}
+
+export interface WhisperModel {
+  id: string;
+  label: string;
+  url: string;
+  filename: string;
+  capabilities: {
+    multilingual: boolean;
+    quantizable: boolean;
+    tdrz?: boolean; // Optional TDRZ capability for native models
+  };
+  // Expected file size in bytes and SHA-256, as listed by Hugging Face for the
+  // file. Custom models may leave them out, and then only the server's
+  // Content-Length is checked
+  size?: number;
+  sha256?: string;
+  // Optional extra check; whisper.cpp's download script lists SHA-1s
+  sha1?: string;
+  // Where the entry came from; user-registered models are persisted separately
+  source?: ModelSource;
+  // Rough download size for display; `size` is the exact value used for verification
+  approxSizeMB?: number;
+  // Quantized builds offered when `capabilities.quantizable` is true
+  variants?: ModelVariant[];
+  // Set on generated variant entries
+  baseModelId?: string;
+  quantization?: Quantization;
+}
+
+export const BUILT_IN_MODELS: WhisperModel[] = [
+  {
+    id: "large-v3-turbo",
+    label: "Large Multilanguae",
+    url: "https://huggingface.co/ggerganov/whisper.cpp/resolve/main/ggml-large-v3-turbo.bin",
+    filename: "ggml-large-v3-turbo.bin",
+    sha1: "4af2b29d7ec73d781377bfd1758ca957a807e941",
+    approxSizeMB: 1536,
+    capabilities: {
+      multilingual: true,
+      quantizable: true,
+    },
+    variants: [
+      {
+        quantization: "q5_0",
+        approxSizeMB: 547,
+        sha1: "e050f7970618a659205450ad97eb95a18d69c9ee",
+      },
+      { quantization: "q8_0", approxSizeMB: 834 },
+    ],
+  },
+  {
+    id: "tiny",
+    label: "Tiny (en)",
+    url: "https://huggingface.co/ggerganov/whisper.cpp/resolve/main/ggml-tiny.en.bin",
+    filename: "ggml-tiny.en.bin",
+    sha1: "c78c86eb1a8faa21b369bcd33207cc90d64ae9df",
+    approxSizeMB: 75,
+    capabilities: {
+      multilingual: false,
+      quantizable: true,
+    },
+    variants: [{ quantization: "q5_1", approxSizeMB: 31 }],
+  },
+  {
+    id: "base",
+    label: "Base Model",
+    url: "https://huggingface.co/ggerganov/whisper.cpp/resolve/main/ggml-base.bin",
+    filename: "ggml-base.bin",
+    sha1: "465707469ff3a37a2b9b8d8f89f2f99de7299dac",
+    approxSizeMB: 142,
+    capabilities: {
+      multilingual: true,
+      quantizable: true,
+    },
+    variants: [
+      { quantization: "q5_1", approxSizeMB: 57 },
+      { quantization: "q8_0", approxSizeMB: 78 },
+    ],
+  },
+  {
+    id: "small",
+    label: "Small Model",
+    url: "https://huggingface.co/ggerganov/whisper.cpp/resolve/main/ggml-small.bin",
+    filename: "ggml-small.bin",
+    sha1: "55356645c2b361a969dfd0ef2c5a50d530afd8d5",
+    approxSizeMB: 466,
+    capabilities: {
+      multilingual: true,
+      quantizable: true,
+    },
+    variants: [
+      { quantization: "q5_1", approxSizeMB: 181 },
+      { quantization: "q8_0", approxSizeMB: 252 },
+    ],
+  },
+  {
+    id: "small-tdrz",
+    label: "Small (tdrz)",
+    url: "https://huggingface.co/ggerganov/whisper.cpp/resolve/main/ggml-small.en-tdrz.bin",
+    filename: "ggml-small.en-tdrz.bin",
+    sha1: "b6c6e7e89af1a35c08e6de56b66ca6a02a2fdfa1",
+    approxSizeMB: 465,
+    capabilities: {
+      multilingual: false,
+      quantizable: false,
+      tdrz: true,
+    },
+  },
+];
+
+const CUSTOM_MODELS_FILENAME = "custom-models.json";
+const MODEL_ID_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+const MODEL_FILENAME_PATTERN = /^[^/\\]+\.bin$/;
+const SHA256_PATTERN = /^[0-9a-f]{64}$/i;
+const SHA1_PATTERN = /^[0-9a-f]{40}$/i;
+
+export type ModelValidationResult =
+  | { ok: true; model: WhisperModel }
+  | { ok: false; errors: string[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Checks an untrusted value (manifest or user input) against the
+ * `WhisperModel` shape and returns a clean copy when it matches.
+ */
+export function validateWhisperModel(
+  value: unknown,
+  source: ModelSource
+): ModelValidationResult {
+  if (!isRecord(value)) {
+    return { ok: false, errors: ["Entry is not an object"] };
+  }
+
+  const errors: string[] = [];
+  const {
+    id,
+    label,
+    url,
+    filename,
+    capabilities,
+    size,
+    sha256,
+    sha1,
+    approxSizeMB,
+    variants,
+  } = value;
+
+  if (typeof id !== "string" || !MODEL_ID_PATTERN.test(id)) {
+    errors.push("`id` must be a lowercase slug");
+  }
+  if (typeof label !== "string" || !label.trim()) {
+    errors.push("`label` must be a non-empty string");
+  }
+  if (typeof url !== "string" || !/^(https?|file):\/\//.test(url)) {
+    errors.push("`url` must be an http(s) or file URL");
+  }
+  if (typeof filename !== "string" || !MODEL_FILENAME_PATTERN.test(filename)) {
+    errors.push("`filename` must be a .bin file name");
+  }
+  if (
+    !isRecord(capabilities) ||
+    typeof capabilities.multilingual !== "boolean" ||
+    typeof capabilities.quantizable !== "boolean" ||
+    (capabilities.tdrz !== undefined && typeof capabilities.tdrz !== "boolean")
+  ) {
+    errors.push(
+      "`capabilities` must declare boolean `multilingual` and `quantizable`"
+    );
+  }
+  if (
+    size !== undefined &&
+    (typeof size !== "number" || !Number.isInteger(size) || size <= 0)
+  ) {
+    errors.push("`size` must be a positive byte count");
+  }
+  if (
+    sha256 !== undefined &&
+    (typeof sha256 !== "string" || !SHA256_PATTERN.test(sha256))
+  ) {
+    errors.push("`sha256` must be 64 hex characters");
+  }
+  if (
+    sha1 !== undefined &&
+    (typeof sha1 !== "string" || !SHA1_PATTERN.test(sha1))
+  ) {
+    errors.push("`sha1` must be 40 hex characters");
+  }
+
+  if (
+    approxSizeMB !== undefined &&
+    (typeof approxSizeMB !== "number" || approxSizeMB <= 0)
+  ) {
+    errors.push("`approxSizeMB` must be a positive number");
+  }
+  if (
+    variants !== undefined &&
+    (!Array.isArray(variants) ||
+      !variants.every(
+        (variant) =>
+          isRecord(variant) &&
+          QUANTIZATIONS.includes(variant.quantization as Quantization) &&
+          typeof variant.approxSizeMB === "number" &&
+          (variant.size === undefined ||
+            (typeof variant.size === "number" &&
+              Number.isInteger(variant.size) &&
+              variant.size > 0)) &&
+          (variant.sha256 === undefined ||
+            (typeof variant.sha256 === "string" &&
+              SHA256_PATTERN.test(variant.sha256))) &&
+          (variant.sha1 === undefined ||
+            (typeof variant.sha1 === "string" &&
+              SHA1_PATTERN.test(variant.sha1)))
+      ))
+  ) {
+    errors.push(
+      `\`variants\` must list ${QUANTIZATIONS.join(", ")} builds with sizes`
+    );
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  const caps = capabilities as Record<string, boolean | undefined>;
+  return {
+    ok: true,
+    model: {
+      id: id as string,
+      label: (label as string).trim(),
+      url: url as string,
+      filename: filename as string,
+      capabilities: {
+        multilingual: caps.multilingual as boolean,
+        quantizable: caps.quantizable as boolean,
+        ...(caps.tdrz !== undefined ? { tdrz: caps.tdrz } : {}),
+      },
+      ...(size !== undefined ? { size: size as number } : {}),
+      ...(sha256 !== undefined ? { sha256: sha256 as string } : {}),
+      ...(sha1 !== undefined ? { sha1: sha1 as string } : {}),
+      ...(approxSizeMB !== undefined
+        ? { approxSizeMB: approxSizeMB as number }
+        : {}),
+      ...(variants !== undefined
+        ? { variants: variants as ModelVariant[] }
+        : {}),
+      source,
+    },
+  };
+}
+
+// Validates a list of entries, dropping (and logging) the ones that don't match
+function validateModelList(
+  values: unknown,
+  source: ModelSource
+): WhisperModel[] {
+  if (!Array.isArray(values)) {
+    console.warn(`Ignoring ${source} models: expected an array`);
+    return [];
+  }
+
+  return values.flatMap((value, index) => {
+    const result = validateWhisperModel(value, source);
+    if (result.ok) return [result.model];
+    console.warn(
+      `Ignoring invalid ${source} model at index ${index}:`,
+      result.errors.join("; ")
+    );
+    return [];
+  });
+}
+
+/**
+ * Merges model lists by `id`. Later lists override earlier ones while keeping
+ * the position of the first occurrence, so overrides don't reshuffle the grid.
+ */
+export function mergeModelLists(...lists: WhisperModel[][]): WhisperModel[] {
+  const merged = new Map<string, WhisperModel>();
+  lists.flat().forEach((model) => {
+    const existing = merged.get(model.id);
+    merged.set(model.id, existing ? { ...existing, ...model } : model);
+  });
+
+  // Two entries sharing a file would overwrite each other on disk
+  const seenFilenames = new Set<string>();
+  return Array.from(merged.values()).filter((model) => {
+    if (seenFilenames.has(model.filename)) {
+      console.warn(
+        `Ignoring model ${model.id}: ${model.filename} is already registered`
+      );
+      return false;
+    }
+    seenFilenames.add(model.filename);
+    return true;
+  });
+}
+
+/**
+ * Builds the registry entry for one quantized variant. Upstream names them
+ * after the parent file, e.g. `ggml-base.bin` -> `ggml-base-q5_1.bin`.
+ */
+export function createVariantModel(
+  model: WhisperModel,
+  variant: ModelVariant
+): WhisperModel {
+  const suffix = `-${variant.quantization}.bin`;
+  return {
+    id: `${model.id}-${variant.quantization}`,
+    label: `${model.label} · ${variant.quantization}`,
+    url: model.url.replace(/\.bin(?=$|[?#])/, suffix),
+    filename: model.filename.replace(/\.bin$/, suffix),
+    capabilities: { ...model.capabilities, quantizable: false },
+    ...(variant.size ? { size: variant.size } : {}),
+    ...(variant.sha256 ? { sha256: variant.sha256 } : {}),
+    ...(variant.sha1 ? { sha1: variant.sha1 } : {}),
+    approxSizeMB: variant.approxSizeMB,
+    source: model.source,
+    baseModelId: model.id,
+    quantization: variant.quantization,
+  };
+}
+
+// Inserts each quantizable model's variants right after it
+export const withQuantizedVariants = (models: WhisperModel[]) =>
+  models.flatMap((model) =>
+    model.capabilities.quantizable && model.variants
+      ? [model, ...model.variants.map((v) => createVariantModel(model, v))]
+      : [model]
+  );
+
+export const getBundledModels = () =>
+  withQuantizedVariants(
+    mergeModelLists(
+      BUILT_IN_MODELS.map((model) => ({
+        ...model,
+        source: "builtin" as const,
+      })),
+      validateModelList(manifest.models, "manifest")
+    )
+  );
+
+const getCustomModelsFile = (directory: Directory) =>
+  new File(directory, CUSTOM_MODELS_FILENAME);
+
+export function readCustomModels(directory: Directory): WhisperModel[] {
+  const file = getCustomModelsFile(directory);
+  try {
+    if (!file.exists) return [];
+    return validateModelList(JSON.parse(file.textSync()), "custom");
+  } catch (error) {
+    console.warn("Failed to read custom Whisper models:", error);
+    return [];
+  }
+}
+
+export function writeCustomModels(
+  directory: Directory,
+  models: WhisperModel[]
+) {
+  const file = getCustomModelsFile(directory);
+  if (!file.exists) file.create();
+  file.write(
+    JSON.stringify(
+      models.map(({ source, ...model }) => model),
+      null,
+      2
+    )
+  );
+}
+
+export function loadModelRegistry(directory: Directory): WhisperModel[] {
+  return mergeModelLists(
+    getBundledModels(),
+    withQuantizedVariants(readCustomModels(directory))
+  );
+}
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/\.bin$/, "")
+    .replace(/[^a-z0-9.]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+export interface CustomModelInput {
+  label: string;
+  url: string;
+  filename?: string;
+  capabilities?: Partial<WhisperModel["capabilities"]>;
+  sha256?: string;
+}
+
+/**
+ * Builds a registry entry for a user-supplied model. Capabilities default to
+ * what the ggml file naming convention implies (`.en` models are English-only,
+ * `tdrz` models support tinydiarize).
+ */
+export function createCustomModel(
+  input: CustomModelInput,
+  existing: WhisperModel[]
+): ModelValidationResult {
+  const urlFilename = decodeURIComponent(
+    input.url.split(/[?#]/)[0].split("/").pop() || ""
+  );
+  const baseFilename = input.filename || urlFilename;
+  const slug = slugify(baseFilename || input.label) || "model";
+
+  // Never reuse a filename another entry already owns
+  const takenFilenames = new Set(existing.map((model) => model.filename));
+  const filename = takenFilenames.has(baseFilename)
+    ? `custom-${slug}.bin`
+    : baseFilename;
+
+  let id = `custom-${slug}`;
+  const takenIds = new Set(existing.map((model) => model.id));
+  for (let suffix = 2; takenIds.has(id); suffix += 1) {
+    id = `custom-${slug}-${suffix}`;
+  }
+
+  return validateWhisperModel(
+    {
+      id,
+      label: input.label.trim() || baseFilename,
+      url: input.url.trim(),
+      filename,
+      capabilities: {
+        multilingual: !/\.en([.-]|$)/.test(slug),
+        quantizable: false,
+        tdrz: slug.includes("tdrz") || undefined,
+        ...input.capabilities,
+      },
+      sha256: input.sha256 || undefined,
+    },
+    "custom"
+  );
+}
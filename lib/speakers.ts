@@ -0,0 +1,96 @@
+/**
+ * Speaker turns from tinydiarize (`tdrz`) models.
+ *
+ * With `tdrzEnable`, whisper.rn appends `[SPEAKER_TURN]` to a segment when the
+ * next segment is spoken by someone else. tinydiarize only marks changes, it
+ * doesn't tell voices apart, so segments are assigned to two alternating
+ * speakers that the user can rename.
+ */
+import type { WhisperModel } from "./modelRegistry";
+import type { TranscriptSegment } from "./transcriptStore";
+
+export const SPEAKER_TURN_MARKER = "[SPEAKER_TURN]";
+
+const SPEAKER_TURN_PATTERN = /\s*\[SPEAKER_TURN\]/g;
+// Turns alternate between two speakers
+const SPEAKER_COUNT = 2;
+
+export interface SpeakerBlock {
+  speaker: number;
+  name: string;
+  text: string;
+  t0: number;
+  t1: number;
+}
+
+export const supportsSpeakerTurns = (model?: WhisperModel | null) =>
+  model?.capabilities?.tdrz === true;
+
+export const stripSpeakerTurns = (text: string) =>
+  text.replace(SPEAKER_TURN_PATTERN, "");
+
+export const hasSpeakers = (segments: TranscriptSegment[]) =>
+  segments.some((segment) => segment.speaker !== undefined);
+
+/** Removes the markers and tags every segment with the speaker who said it. */
+export function splitSpeakerTurns(
+  segments: TranscriptSegment[]
+): TranscriptSegment[] {
+  let speaker = 0;
+  return segments.map((segment) => {
+    const turnAfter = segment.text.includes(SPEAKER_TURN_MARKER);
+    const tagged = {
+      ...segment,
+      text: stripSpeakerTurns(segment.text),
+      speaker,
+    };
+    if (turnAfter) speaker = (speaker + 1) % SPEAKER_COUNT;
+    return tagged;
+  });
+}
+
+export const getSpeakerName = (
+  speakers: string[] | undefined,
+  speaker: number
+) => speakers?.[speaker]?.trim() || `Speaker ${speaker + 1}`;
+
+/** Returns a copy of `speakers` with one name changed; an empty name restores the default. */
+export function renameSpeaker(
+  speakers: string[] | undefined,
+  speaker: number,
+  name: string
+) {
+  const names = Array.from(
+    { length: Math.max(SPEAKER_COUNT, speakers?.length ?? 0) },
+    (_, index) => speakers?.[index] ?? ""
+  );
+  names[speaker] = name.trim();
+  return names;
+}
+
+/** Merges consecutive segments from the same speaker. */
+export function getSpeakerBlocks(
+  segments: TranscriptSegment[],
+  speakers?: string[]
+): SpeakerBlock[] {
+  const blocks: SpeakerBlock[] = [];
+  for (const segment of segments) {
+    const text = segment.text.trim();
+    if (!text) continue;
+    const speaker = segment.speaker ?? 0;
+    const last = blocks[blocks.length - 1];
+    if (last && last.speaker === speaker) {
+      last.text = `${last.text} ${text}`;
+      last.t1 = segment.t1;
+    } else {
+      blocks.push({
+        speaker,
+        name: getSpeakerName(speakers, speaker),
+        text,
+        t0: segment.t0,
+        t1: segment.t1,
+      });
+    }
+  }
+  return blocks;
+}
@@ -0,0 +1,226 @@
+/**
+ * Subtitle and document exports for transcripts.
+ *
+ * Formatters are pure so they can run on any segment list; the helpers at the
+ * bottom write the result under `whisper-app-files/exports` or hand it to the
+ * system share sheet. Transcripts from tdrz models carry speaker names into
+ * every format.
+ */
+import { Directory, File } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import type { TranscriptEntry, TranscriptSegment } from "./transcriptStore";
+import { getSpeakerBlocks, getSpeakerName, hasSpeakers } from "./speakers";
+
+export type ExportFormat = "srt" | "vtt" | "txt" | "json";
+
+export type ExportableTranscript = Pick<
+  TranscriptEntry,
+  | "title"
+  | "source"
+  | "modelId"
+  | "language"
+  | "task"
+  | "durationMs"
+  | "createdAt"
+  | "text"
+  | "segments"
+  | "speakers"
+>;
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; extension: string; mimeType: string; uti: string }
+> = {
+  srt: {
+    label: "SRT",
+    extension: "srt",
+    mimeType: "application/x-subrip",
+    uti: "public.plain-text",
+  },
+  vtt: {
+    label: "WebVTT",
+    extension: "vtt",
+    mimeType: "text/vtt",
+    uti: "public.plain-text",
+  },
+  txt: {
+    label: "TXT",
+    extension: "txt",
+    mimeType: "text/plain",
+    uti: "public.plain-text",
+  },
+  json: {
+    label: "JSON",
+    extension: "json",
+    mimeType: "application/json",
+    uti: "public.json",
+  },
+};
+
+const EXPORTS_DIRECTORY_NAME = "exports";
+export const EXPORT_JSON_VERSION = 1;
+
+// Whisper timestamps are centiseconds
+const formatTimestamp = (centiseconds: number, separator: "," | ".") => {
+  const totalMs = Math.max(0, Math.round(centiseconds * 10));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const seconds = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) =>
+    value.toString().padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(
+    ms,
+    3
+  )}`;
+};
+
+/**
+ * Drops empty segments and falls back to a single cue spanning the whole
+ * transcript when no timing is available (e.g. a live session that only
+ * reported text).
+ */
+export function getExportSegments(
+  transcript: ExportableTranscript
+): TranscriptSegment[] {
+  const segments = transcript.segments
+    .map((segment) => ({ ...segment, text: segment.text.trim() }))
+    .filter((segment) => segment.text.length > 0);
+  if (segments.length > 0 || !transcript.text.trim()) return segments;
+  return [
+    {
+      text: transcript.text.trim(),
+      t0: 0,
+      t1: Math.round(transcript.durationMs / 10),
+    },
+  ];
+}
+
+const getCueSpeaker = (
+  transcript: ExportableTranscript,
+  segment: TranscriptSegment
+) =>
+  segment.speaker === undefined
+    ? null
+    : getSpeakerName(transcript.speakers, segment.speaker);
+
+export function toSrt(transcript: ExportableTranscript) {
+  return getExportSegments(transcript)
+    .map((segment, index) => {
+      const speaker = getCueSpeaker(transcript, segment);
+      const text = speaker ? `${speaker}: ${segment.text}` : segment.text;
+      return `${index + 1}\n${formatTimestamp(
+        segment.t0,
+        ","
+      )} --> ${formatTimestamp(segment.t1, ",")}\n${text}\n`;
+    })
+    .join("\n");
+}
+
+export function toWebVtt(transcript: ExportableTranscript) {
+  const cues = getExportSegments(transcript).map((segment) => {
+    const speaker = getCueSpeaker(transcript, segment);
+    // WebVTT voice spans let players style or filter by speaker
+    const text = speaker ? `<v ${speaker}>${segment.text}` : segment.text;
+    return `${formatTimestamp(segment.t0, ".")} --> ${formatTimestamp(
+      segment.t1,
+      "."
+    )}\n${text}\n`;
+  });
+  return ["WEBVTT\n", ...cues].join("\n");
+}
+
+export function toPlainText(transcript: ExportableTranscript) {
+  if (!hasSpeakers(transcript.segments)) return `${transcript.text.trim()}\n`;
+  return `${getSpeakerBlocks(transcript.segments, transcript.speakers)
+    .map((block) => `${block.name}: ${block.text}`)
+    .join("\n\n")}\n`;
+}
+
+export function toJson(transcript: ExportableTranscript) {
+  return JSON.stringify(
+    {
+      version: EXPORT_JSON_VERSION,
+      metadata: {
+        title: transcript.title,
+        source: transcript.source,
+        modelId: transcript.modelId,
+        language: transcript.language,
+        task: transcript.task,
+        durationMs: transcript.durationMs,
+        createdAt: new Date(transcript.createdAt).toISOString(),
+      },
+      text: transcript.text.trim(),
+      segments: getExportSegments(transcript).map((segment) => ({
+        start: segment.t0 / 100,
+        end: segment.t1 / 100,
+        text: segment.text,
+        ...(segment.speaker !== undefined
+          ? { speaker: getCueSpeaker(transcript, segment) }
+          : {}),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+export function formatTranscript(
+  transcript: ExportableTranscript,
+  format: ExportFormat
+) {
+  switch (format) {
+    case "srt":
+      return toSrt(transcript);
+    case "vtt":
+      return toWebVtt(transcript);
+    case "txt":
+      return toPlainText(transcript);
+    case "json":
+      return toJson(transcript);
+  }
+}
+
+const toFilename = (title: string) =>
+  title
+    .trim()
+    .replace(/\.[a-z0-9]+$/i, "")
+    .replace(/[^a-z0-9._-]+/gi, "-")
+    .replace(/^-+|-+$/g, "") || "transcript";
+
+/** Writes the export to disk, replacing an earlier export of the same name. */
+export function writeTranscriptExport(
+  appDirectory: Directory,
+  transcript: ExportableTranscript,
+  format: ExportFormat
+) {
+  const directory = new Directory(appDirectory, EXPORTS_DIRECTORY_NAME);
+  directory.create({ idempotent: true, intermediates: true });
+
+  const file = new File(
+    directory,
+    `${toFilename(transcript.title)}.${EXPORT_FORMATS[format].extension}`
+  );
+  if (file.exists) file.delete();
+  file.create();
+  file.write(formatTranscript(transcript, format));
+  return file;
+}
+
+export async function shareTranscriptExport(
+  appDirectory: Directory,
+  transcript: ExportableTranscript,
+  format: ExportFormat
+) {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing isn't available on this device");
+  }
+  const file = writeTranscriptExport(appDirectory, transcript, format);
+  const { mimeType, uti, label } = EXPORT_FORMATS[format];
+  await Sharing.shareAsync(file.uri, {
+    mimeType,
+    UTI: uti,
+    dialogTitle: `Share ${label}`,
+  });
+  return file;
+}
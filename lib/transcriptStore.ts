@@ -0,0 +1,149 @@
+/**
+ * On-disk history of file and live transcription sessions.
+ *
+ * Each session is a JSON file under `whisper-app-files/transcripts`, named
+ * after its ID, so a corrupt entry never takes the rest of the history down.
+ */
+import { Directory, File } from "expo-file-system";
+import type { LanguageDetection, TranscriptTask } from "./language";
+
+export type TranscriptSource = "file" | "live";
+
+// Segment times are in centiseconds, as returned by whisper.rn
+export interface TranscriptSegment {
+  text: string;
+  t0: number;
+  t1: number;
+  // Index of the speaker, set when the transcript was made with a tdrz model
+  speaker?: number;
+}
+
+export interface TranscriptEntry {
+  id: string;
+  title: string;
+  source: TranscriptSource;
+  modelId: string;
+  // Language passed to Whisper, or the detected one when it ran in auto mode
+  language: string;
+  detection?: LanguageDetection | null;
+  task: TranscriptTask;
+  durationMs: number;
+  createdAt: number;
+  updatedAt: number;
+  text: string;
+  segments: TranscriptSegment[];
+  // Source audio, when it is still available on the device
+  audioUri?: string;
+  // Names given to speakers, by index; unnamed speakers use "Speaker N"
+  speakers?: string[];
+}
+
+export type NewTranscriptEntry = Omit<
+  TranscriptEntry,
+  "id" | "createdAt" | "updatedAt"
+>;
+
+const TRANSCRIPTS_DIRECTORY_NAME = "transcripts";
+
+export const getTranscriptsDirectory = (appDirectory: Directory) =>
+  new Directory(appDirectory, TRANSCRIPTS_DIRECTORY_NAME);
+
+const getEntryFile = (appDirectory: Directory, id: string) =>
+  new File(getTranscriptsDirectory(appDirectory), `${id}.json`);
+
+const createTranscriptId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isTranscriptEntry = (value: unknown): value is TranscriptEntry => {
+  if (!value || typeof value !== "object") return false;
+  const entry = value as Partial<TranscriptEntry>;
+  return (
+    typeof entry.id === "string" &&
+    typeof entry.title === "string" &&
+    (entry.source === "file" || entry.source === "live") &&
+    typeof entry.text === "string" &&
+    Array.isArray(entry.segments)
+  );
+};
+
+export function readTranscript(
+  appDirectory: Directory,
+  id: string
+): TranscriptEntry | null {
+  const file = getEntryFile(appDirectory, id);
+  try {
+    if (!file.exists) return null;
+    const parsed = JSON.parse(file.textSync());
+    return isTranscriptEntry(parsed) ? parsed : null;
+  } catch (error) {
+    console.warn(`Failed to read transcript ${id}:`, error);
+    return null;
+  }
+}
+
+/** Returns every stored session, newest first. Unreadable files are skipped. */
+export function listTranscripts(appDirectory: Directory): TranscriptEntry[] {
+  const directory = getTranscriptsDirectory(appDirectory);
+  try {
+    if (!directory.exists) return [];
+    return directory
+      .list()
+      .filter(
+        (item): item is File =>
+          item instanceof File && item.name.endsWith(".json")
+      )
+      .map((file) => readTranscript(appDirectory, file.name.slice(0, -5)))
+      .filter((entry): entry is TranscriptEntry => entry !== null)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  } catch (error) {
+    console.warn("Failed to list transcripts:", error);
+    return [];
+  }
+}
+
+export function writeTranscript(
+  appDirectory: Directory,
+  entry: TranscriptEntry
+) {
+  const directory = getTranscriptsDirectory(appDirectory);
+  directory.create({ idempotent: true, intermediates: true });
+  const file = getEntryFile(appDirectory, entry.id);
+  if (!file.exists) file.create();
+  file.write(JSON.stringify(entry));
+}
+
+export function saveTranscript(
+  appDirectory: Directory,
+  input: NewTranscriptEntry
+): TranscriptEntry {
+  const now = Date.now();
+  const entry: TranscriptEntry = {
+    ...input,
+    id: createTranscriptId(),
+    createdAt: now,
+    updatedAt: now,
+  };
+  writeTranscript(appDirectory, entry);
+  return entry;
+}
+
+export function updateTranscript(
+  appDirectory: Directory,
+  id: string,
+  patch: Partial<Omit<TranscriptEntry, "id" | "createdAt">>
+): TranscriptEntry | null {
+  const existing = readTranscript(appDirectory, id);
+  if (!existing) return null;
+  const entry = { ...existing, ...patch, id, updatedAt: Date.now() };
+  writeTranscript(appDirectory, entry);
+  return entry;
+}
+
+export function deleteTranscript(appDirectory: Directory, id: string) {
+  const file = getEntryFile(appDirectory, id);
+  if (file.exists) file.delete();
+}
+
+// Live sessions report recording time; file results only have segment times
+export const getSegmentsDurationMs = (segments: TranscriptSegment[]) =>
+  segments.reduce((end, segment) => Math.max(end, segment.t1 * 10), 0);
@@ -0,0 +1,244 @@
+/**
+ * Decoding and live capture settings, saved per model.
+ *
+ * Every option the app passes to `transcribe` and `transcribeRealtime` apart
+ * from the per-session ones (language, translation, speaker turns, prompt) is
+ * built here from `TranscriptionSettings`. Each model starts from a preset
+ * picked by its size, so beam search is only the default where it is cheap,
+ * and keeps its own copy once edited. VAD settings and whether live sessions
+ * keep their audio are stored in the same file; the spoken language stays in
+ * the language preferences.
+ */
+import { Directory, File } from "expo-file-system";
+import type {
+  TranscribeOptions,
+  TranscribeRealtimeOptions,
+} from "whisper.rn/index.js";
+import type { WhisperModel } from "./modelRegistry";
+import {
+  DEFAULT_VAD_SETTINGS,
+  normalizeVadSettings,
+  type VadSettings,
+} from "./vad";
+
+const SETTINGS_FILENAME = "settings.json";
+
+// Each capture run ends here; the live session controller starts the next one
+export const LIVE_RUN_SEC = 300;
+// Whisper decodes 30s windows, so longer slices gain nothing
+const MAX_SLICE_SEC = 30;
+
+export interface TranscriptionSettings {
+  // 0 lets whisper.rn choose: 2 threads on 4-core devices, otherwise up to 4
+  maxThreads: number;
+  // 1 decodes greedily; more switches to beam search with that many beams
+  beamSize: number;
+  // Candidates sampled when greedy decoding falls back to a higher temperature
+  bestOf: number;
+  temperature: number;
+  // Maximum segment length in characters; 0 leaves segments as Whisper ends them
+  maxLen: number;
+  tokenTimestamps: boolean;
+  realtimeAudioSliceSec: number;
+  realtimeAudioMinSec: number;
+}
+
+export type TranscriptionPresetId = "fast" | "balanced" | "accurate";
+
+export interface TranscriptionPreset {
+  id: TranscriptionPresetId;
+  label: string;
+  description: string;
+  settings: TranscriptionSettings;
+}
+
+export interface ModelSettings {
+  // "custom" once any value was changed by hand
+  presetId: TranscriptionPresetId | "custom";
+  settings: TranscriptionSettings;
+}
+
+export interface SettingsStore {
+  models: Record<string, ModelSettings>;
+  vad: VadSettings;
+  // Save each live session's audio next to its transcript
+  saveLiveAudio: boolean;
+}
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  maxThreads: 0,
+  beamSize: 1,
+  bestOf: 5,
+  temperature: 0,
+  maxLen: 0,
+  tokenTimestamps: false,
+  realtimeAudioSliceSec: 20,
+  realtimeAudioMinSec: 2,
+};
+
+export const TRANSCRIPTION_PRESETS: TranscriptionPreset[] = [
+  {
+    id: "fast",
+    label: "Fast",
+    description: "Greedy decoding with short live slices",
+    settings: {
+      ...DEFAULT_TRANSCRIPTION_SETTINGS,
+      bestOf: 1,
+      realtimeAudioSliceSec: 10,
+      realtimeAudioMinSec: 1,
+    },
+  },
+  {
+    id: "balanced",
+    label: "Balanced",
+    description: "Greedy decoding with 20s live slices",
+    settings: DEFAULT_TRANSCRIPTION_SETTINGS,
+  },
+  {
+    id: "accurate",
+    label: "Accurate",
+    description: "Beam search with five beams",
+    settings: {
+      ...DEFAULT_TRANSCRIPTION_SETTINGS,
+      beamSize: 5,
+      realtimeAudioSliceSec: 25,
+    },
+  },
+];
+
+export const DEFAULT_SETTINGS_STORE: SettingsStore = {
+  models: {},
+  vad: DEFAULT_VAD_SETTINGS,
+  saveLiveAudio: false,
+};
+
+export const getPreset = (id: TranscriptionPresetId) =>
+  TRANSCRIPTION_PRESETS.find((preset) => preset.id === id) ??
+  TRANSCRIPTION_PRESETS[1];
+
+/** Beam search is only worth its cost on small models. */
+export function getRecommendedPresetId(
+  model?: WhisperModel | null
+): TranscriptionPresetId {
+  // Custom models may not declare a size
+  const size = model?.approxSizeMB;
+  if (!size) return "balanced";
+  if (size <= 150) return "accurate";
+  if (size <= 600) return "balanced";
+  return "fast";
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, Number.isFinite(value) ? value : min));
+
+export function normalizeTranscriptionSettings(
+  settings: TranscriptionSettings
+): TranscriptionSettings {
+  const maxLen = Math.round(clamp(settings.maxLen, 0, 200));
+  const realtimeAudioSliceSec = Math.round(
+    clamp(settings.realtimeAudioSliceSec, 5, MAX_SLICE_SEC)
+  );
+  return {
+    maxThreads: Math.round(clamp(settings.maxThreads, 0, 8)),
+    beamSize: Math.round(clamp(settings.beamSize, 1, 8)),
+    bestOf: Math.round(clamp(settings.bestOf, 1, 10)),
+    temperature: Math.round(clamp(settings.temperature, 0, 1) * 10) / 10,
+    maxLen,
+    // whisper.cpp only splits segments by length using token timestamps
+    tokenTimestamps: settings.tokenTimestamps === true || maxLen > 0,
+    realtimeAudioSliceSec,
+    realtimeAudioMinSec:
+      Math.round(
+        clamp(settings.realtimeAudioMinSec, 0.5, realtimeAudioSliceSec) * 2
+      ) / 2,
+  };
+}
+
+/** Saved settings for `model`, or its recommended preset. */
+export function getModelSettings(
+  store: SettingsStore,
+  model?: WhisperModel | null
+): ModelSettings {
+  const saved = model ? store.models[model.id] : undefined;
+  if (saved) return saved;
+  const presetId = getRecommendedPresetId(model);
+  return { presetId, settings: getPreset(presetId).settings };
+}
+
+/**
+ * Decoding options shared by file and live transcription. Values equal to
+ * whisper.rn's own defaults are left out so the native side keeps choosing
+ * them (passing `beamSize` at all switches to beam search).
+ */
+export function getDecodingOptions(
+  settings: TranscriptionSettings
+): TranscribeOptions {
+  return {
+    ...(settings.maxThreads > 0 ? { maxThreads: settings.maxThreads } : {}),
+    ...(settings.beamSize > 1 ? { beamSize: settings.beamSize } : {}),
+    bestOf: settings.bestOf,
+    temperature: settings.temperature,
+    ...(settings.maxLen > 0 ? { maxLen: settings.maxLen } : {}),
+    tokenTimestamps: settings.tokenTimestamps,
+  };
+}
+
+export const getRealtimeCaptureOptions = (
+  settings: TranscriptionSettings
+): Pick<
+  TranscribeRealtimeOptions,
+  "realtimeAudioSec" | "realtimeAudioSliceSec" | "realtimeAudioMinSec"
+> => ({
+  realtimeAudioSec: LIVE_RUN_SEC,
+  realtimeAudioSliceSec: settings.realtimeAudioSliceSec,
+  realtimeAudioMinSec: settings.realtimeAudioMinSec,
+});
+
+const getSettingsFile = (directory: Directory) =>
+  new File(directory, SETTINGS_FILENAME);
+
+export function readSettingsStore(directory: Directory): SettingsStore {
+  const file = getSettingsFile(directory);
+  try {
+    if (!file.exists) return DEFAULT_SETTINGS_STORE;
+    const parsed = JSON.parse(file.textSync());
+    const models: Record<string, ModelSettings> = {};
+    if (parsed?.models && typeof parsed.models === "object") {
+      for (const [modelId, saved] of Object.entries<Partial<ModelSettings>>(
+        parsed.models
+      )) {
+        if (!saved?.settings || typeof saved.settings !== "object") continue;
+        const isPreset = TRANSCRIPTION_PRESETS.some(
+          (preset) => preset.id === saved.presetId
+        );
+        models[modelId] = {
+          presetId: isPreset ? saved.presetId! : "custom",
+          // Settings added in later versions fall back to their defaults
+          settings: normalizeTranscriptionSettings({
+            ...DEFAULT_TRANSCRIPTION_SETTINGS,
+            ...saved.settings,
+          }),
+        };
+      }
+    }
+    return {
+      models,
+      vad: normalizeVadSettings({ ...DEFAULT_VAD_SETTINGS, ...parsed?.vad }),
+      saveLiveAudio: parsed?.saveLiveAudio === true,
+    };
+  } catch (error) {
+    console.warn("Failed to read settings:", error);
+    return DEFAULT_SETTINGS_STORE;
+  }
+}
+
+export function writeSettingsStore(directory: Directory, store: SettingsStore) {
+  try {
+    directory.create({ idempotent: true, intermediates: true });
+    const file = getSettingsFile(directory);
+    if (!file.exists) file.create();
+    file.write(JSON.stringify({ version: 1, ...store }));
+  } catch (error) {
+    console.warn("Failed to write settings:", error);
+  }
+}
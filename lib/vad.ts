@@ -0,0 +1,88 @@
+/**
+ * Voice activity detection with the Silero VAD model.
+ *
+ * The ggml Silero model is downloaded and verified like any Whisper model but
+ * never shows up in the model grid. File transcription uses it to cut files
+ * into chunks between speech and skip silence (`longformJobs.ts`); live
+ * sessions gate slices with whisper.rn's built-in energy VAD, which runs
+ * natively on the capture buffer.
+ */
+import type {
+  TranscribeRealtimeOptions,
+  VadOptions,
+} from "whisper.rn/index.js";
+import type { WhisperModel } from "./modelRegistry";
+
+export const VAD_MODEL: WhisperModel = {
+  id: "silero-vad",
+  label: "Silero VAD v6.2.0",
+  url: "https://huggingface.co/ggml-org/whisper-vad/resolve/main/ggml-silero-v6.2.0.bin",
+  filename: "ggml-silero-v6.2.0.bin",
+  approxSizeMB: 1,
+  source: "builtin",
+  capabilities: {
+    multilingual: false,
+    quantizable: false,
+  },
+};
+
+export interface VadSettings {
+  enabled: boolean;
+  // Silero speech probability (0-1) used when trimming files
+  threshold: number;
+  minSpeechDurationMs: number;
+  minSilenceDurationMs: number;
+  // Audio kept around detected speech so words aren't clipped
+  speechPadMs: number;
+  // Energy threshold (0-1) a live slice must cross before it is transcribed
+  liveThreshold: number;
+  // Audio window the live VAD inspects; whisper.rn requires at least 2000ms
+  liveWindowMs: number;
+}
+
+export const DEFAULT_VAD_SETTINGS: VadSettings = {
+  enabled: true,
+  threshold: 0.5,
+  minSpeechDurationMs: 250,
+  minSilenceDurationMs: 100,
+  speechPadMs: 200,
+  liveThreshold: 0.6,
+  liveWindowMs: 2000,
+};
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, Number.isFinite(value) ? value : min));
+
+export function normalizeVadSettings(settings: VadSettings): VadSettings {
+  return {
+    enabled: settings.enabled,
+    threshold: clamp(settings.threshold, 0.05, 0.95),
+    minSpeechDurationMs: Math.round(
+      clamp(settings.minSpeechDurationMs, 0, 5000)
+    ),
+    minSilenceDurationMs: Math.round(
+      clamp(settings.minSilenceDurationMs, 0, 5000)
+    ),
+    speechPadMs: Math.round(clamp(settings.speechPadMs, 0, 2000)),
+    liveThreshold: clamp(settings.liveThreshold, 0.05, 0.95),
+    liveWindowMs: Math.round(clamp(settings.liveWindowMs, 2000, 10000)),
+  };
+}
+
+export const getVadOptions = (settings: VadSettings): VadOptions => ({
+  threshold: settings.threshold,
+  minSpeechDurationMs: settings.minSpeechDurationMs,
+  minSilenceDurationMs: settings.minSilenceDurationMs,
+  speechPadMs: settings.speechPadMs,
+});
+
+export const getRealtimeVadOptions = (
+  settings: VadSettings
+): Pick<TranscribeRealtimeOptions, "useVad" | "vadThold" | "vadMs"> =>
+  settings.enabled
+    ? {
+        useVad: true,
+        vadThold: settings.liveThreshold,
+        vadMs: settings.liveWindowMs,
+      }
+    : { useVad: false };
@@ -0,0 +1,311 @@
+/**
+ * Custom vocabulary: user term lists that bias and correct transcripts.
+ *
+ * The selected list is compiled into Whisper's initial `prompt`, which makes
+ * the decoder more likely to spell those terms the way they are written in
+ * the list. Whisper has no tokenizer exposed through whisper.rn, so the prompt
+ * is sized with a conservative token estimate and terms that don't fit are
+ * left out (earlier terms in the list win).
+ *
+ * The prompt only nudges the decoder, so final text also goes through
+ * `correctVocabularyTerms`, which replaces near-miss spellings ("open AI",
+ * "Kubernetis") with the listed term. Lists live in
+ * `whisper-app-files/vocabulary.json`.
+ */
+import { Directory, File } from "expo-file-system";
+
+const VOCABULARY_FILENAME = "vocabulary.json";
+
+// Every released Whisper model has a 448-token text context and whisper.cpp
+// keeps at most half of it for the prompt, dropping the oldest tokens
+export const PROMPT_TOKEN_LIMIT = 224;
+// Multi-word terms are matched across at most this many words
+const MAX_TERM_WORDS = 4;
+
+export interface VocabularyList {
+  id: string;
+  name: string;
+  terms: string[];
+}
+
+export interface VocabularyState {
+  lists: VocabularyList[];
+  selectedListId: string | null;
+  // Whether final text is corrected towards the selected terms
+  correctSpellings: boolean;
+}
+
+export interface CompiledPrompt {
+  prompt: string;
+  includedTerms: string[];
+  omittedTerms: string[];
+  estimatedTokens: number;
+}
+
+export const DEFAULT_VOCABULARY_STATE: VocabularyState = {
+  lists: [],
+  selectedListId: null,
+  correctSpellings: true,
+};
+
+/** Terms from free text: one per line or comma separated, deduplicated. */
+export function parseTerms(text: string) {
+  const seen = new Set<string>();
+  const terms: string[] = [];
+  for (const raw of text.split(/[\n,]/)) {
+    const term = raw.replace(/\s+/g, " ").trim();
+    const key = term.toLowerCase();
+    if (!term || seen.has(key)) continue;
+    seen.add(key);
+    terms.push(term);
+  }
+  return terms;
+}
+
+/**
+ * Upper bound on GPT-2 BPE tokens for `text`. Common words are one token, but
+ * product names and acronyms split into pieces, so every three letters of a
+ * word count as a token, punctuation as one and other scripts as two per
+ * character.
+ */
+export function estimateTokenCount(text: string) {
+  let tokens = 0;
+  for (const piece of text.match(/[A-Za-z0-9\u00C0-\u024F]+|\S/g) ?? []) {
+    if (/^[A-Za-z0-9\u00C0-\u024F]/.test(piece)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else {
+      tokens += piece.charCodeAt(0) > 0x7f ? 2 : 1;
+    }
+  }
+  return tokens;
+}
+
+/** Glossary-style prompt of the terms that fit within `tokenLimit`. */
+export function compileVocabularyPrompt(
+  terms: string[],
+  tokenLimit = PROMPT_TOKEN_LIMIT
+): CompiledPrompt {
+  const includedTerms: string[] = [];
+  const omittedTerms: string[] = [];
+  // Separators (", " and the closing ".") cost a token each
+  let estimatedTokens = 1;
+  for (const term of terms) {
+    const cost = estimateTokenCount(term) + 1;
+    if (estimatedTokens + cost > tokenLimit) {
+      omittedTerms.push(term);
+      continue;
+    }
+    includedTerms.push(term);
+    estimatedTokens += cost;
+  }
+  return {
+    prompt: includedTerms.length > 0 ? `${includedTerms.join(", ")}.` : "",
+    includedTerms,
+    omittedTerms,
+    estimatedTokens: includedTerms.length > 0 ? estimatedTokens : 0,
+  };
+}
+
+export const getSelectedList = (state: VocabularyState) =>
+  state.lists.find((list) => list.id === state.selectedListId) ?? null;
+
+/** Terms final text is corrected towards; none when correction is off. */
+export const getCorrectionTerms = (state: VocabularyState) =>
+  state.correctSpellings ? getSelectedList(state)?.terms ?? [] : [];
+
+const compactKey = (text: string) =>
+  text.toLowerCase().replace(/[\s\-_.'’]/g, "");
+
+// Short terms must match exactly so common words aren't rewritten
+const getAllowedDistance = (length: number) =>
+  length < 7 ? 0 : length < 11 ? 1 : 2;
+
+/** Optimal string alignment distance, giving up once it exceeds `max`. */
+function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let twoBack = new Array<number>(b.length + 1).fill(0);
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, twoBack[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    twoBack = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+interface WordToken {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Replaces near-miss spellings of `terms` in `text`: differences in spacing
+ * or hyphenation ("open ai" → "OpenAI") and, for longer terms, one or two
+ * typos. Text that differs from a term only in case is left alone, so "ask
+ * us about it" keeps its words when "US" and "IT" are terms. Punctuation and
+ * spacing around the match are kept.
+ */
+export function correctVocabularyTerms(text: string, terms: string[]) {
+  const candidates = terms
+    .map((term) => ({
+      term,
+      key: compactKey(term),
+      words: term.split(" ").length,
+    }))
+    .filter((candidate) => candidate.key.length > 0);
+  if (candidates.length === 0 || !text) return text;
+
+  const tokens: WordToken[] = [];
+  for (const match of text.matchAll(/[^\s.,!?;:"“”()[\]]+/g)) {
+    const start = match.index ?? 0;
+    tokens.push({ text: match[0], start, end: start + match[0].length });
+  }
+
+  let output = "";
+  let cursor = 0;
+  let i = 0;
+  while (i < tokens.length) {
+    let best: {
+      term: string;
+      span: number;
+      distance: number;
+      suffix: string;
+    } | null = null;
+    for (const candidate of candidates) {
+      const minSpan = Math.max(1, candidate.words - 1);
+      const maxSpan = Math.min(MAX_TERM_WORDS, candidate.words + 1);
+      for (let span = minSpan; span <= maxSpan; span++) {
+        if (i + span > tokens.length) break;
+        // Words are only joined across plain spaces, never across punctuation
+        if (
+          span > 1 &&
+          !/^\s+$/.test(
+            text.slice(tokens[i + span - 2].end, tokens[i + span - 1].start)
+          )
+        ) {
+          break;
+        }
+        const joined = tokens
+          .slice(i, i + span)
+          .map((token) => token.text)
+          .join("");
+        // A possessive stays attached to the corrected term, unless the term
+        // itself ends in one ("McDonald's")
+        const suffix =
+          compactKey(joined) === candidate.key
+            ? ""
+            : /['’]s$/i.exec(joined)?.[0] ?? "";
+        const key = compactKey(joined.slice(0, -suffix.length || undefined));
+        // Case alone doesn't make a near miss; acronyms are often words too
+        const original = text.slice(
+          tokens[i].start,
+          tokens[i + span - 1].end - suffix.length
+        );
+        if (
+          original !== candidate.term &&
+          original.toLowerCase() === candidate.term.toLowerCase()
+        ) {
+          continue;
+        }
+        const allowed = getAllowedDistance(candidate.key.length);
+        // Fuzzy matches must start with the same letter and be about as long,
+        // so a lone "whisper" isn't taken for "whisper.rn"
+        if (
+          key !== candidate.key &&
+          (key[0] !== candidate.key[0] ||
+            Math.abs(key.length - candidate.key.length) > 1)
+        ) {
+          continue;
+        }
+        const distance =
+          key === candidate.key ? 0 : editDistance(key, candidate.key, allowed);
+        if (distance > allowed) continue;
+        if (
+          !best ||
+          distance < best.distance ||
+          (distance === best.distance && span > best.span)
+        ) {
+          best = { term: candidate.term, span, distance, suffix };
+        }
+      }
+    }
+
+    if (best) {
+      const first = tokens[i];
+      const last = tokens[i + best.span - 1];
+      output += text.slice(cursor, first.start) + best.term + best.suffix;
+      cursor = last.end;
+      i += best.span;
+    } else {
+      i++;
+    }
+  }
+  return output + text.slice(cursor);
+}
+
+export const correctSegmentTerms = <T extends { text: string }>(
+  segments: T[],
+  terms: string[]
+) =>
+  terms.length > 0
+    ? segments.map((segment) => ({
+        ...segment,
+        text: correctVocabularyTerms(segment.text, terms),
+      }))
+    : segments;
+
+const getVocabularyFile = (directory: Directory) =>
+  new File(directory, VOCABULARY_FILENAME);
+
+export function readVocabulary(directory: Directory): VocabularyState {
+  const file = getVocabularyFile(directory);
+  try {
+    if (!file.exists) return DEFAULT_VOCABULARY_STATE;
+    const parsed = JSON.parse(file.textSync());
+    const lists: VocabularyList[] = Array.isArray(parsed?.lists)
+      ? parsed.lists.filter(
+          (list: Partial<VocabularyList>) =>
+            typeof list?.id === "string" &&
+            typeof list.name === "string" &&
+            Array.isArray(list.terms)
+        )
+      : [];
+    return {
+      lists,
+      selectedListId: lists.some((list) => list.id === parsed?.selectedListId)
+        ? parsed.selectedListId
+        : null,
+      correctSpellings: parsed?.correctSpellings !== false,
+    };
+  } catch (error) {
+    console.warn("Failed to read vocabulary:", error);
+    return DEFAULT_VOCABULARY_STATE;
+  }
+}
+
+export function writeVocabulary(directory: Directory, state: VocabularyState) {
+  try {
+    directory.create({ idempotent: true, intermediates: true });
+    const file = getVocabularyFile(directory);
+    if (!file.exists) file.create();
+    file.write(JSON.stringify({ version: 1, ...state }));
+  } catch (error) {
+    console.warn("Failed to write vocabulary:", error);
+  }
+}
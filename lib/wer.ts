@@ -0,0 +1,276 @@
+/**
+ * Word and character error rates between a reference and a transcript.
+ *
+ * Pure TypeScript with no app or native imports, so it can be unit-tested on
+ * plain strings. Both texts are normalized first (case, punctuation, spacing)
+ * so the score reflects recognition errors rather than formatting. The
+ * alignment is a Levenshtein alignment that prefers matches, then
+ * substitutions, then deletions, then insertions when several paths tie.
+ * Counting keeps two DP rows; only the alignment needs the full table, so it
+ * is skipped for texts too long to align on a phone.
+ */
+
+export type AlignmentOpType =
+  | "match"
+  | "substitution"
+  | "deletion"
+  | "insertion";
+
+export interface AlignmentOp {
+  type: AlignmentOpType;
+  // Missing for insertions
+  reference?: string;
+  // Missing for deletions
+  hypothesis?: string;
+}
+
+export interface ErrorRate {
+  // (substitutions + deletions + insertions) / reference length; can exceed 1
+  rate: number;
+  hits: number;
+  substitutions: number;
+  deletions: number;
+  insertions: number;
+  referenceLength: number;
+  // Null when the texts were too long to align
+  alignment: AlignmentOp[] | null;
+}
+
+export type ErrorCounts = Omit<ErrorRate, "alignment">;
+
+export interface TranscriptEvaluation {
+  wer: ErrorRate;
+  // Character alignments aren't shown, so only the counts are kept
+  cer: ErrorCounts;
+}
+
+// Largest table alignTokens builds, about 20 MB
+const MAX_ALIGNMENT_CELLS = 4_000_000;
+
+// Backtrace directions stored per DP cell
+const MATCH = 0;
+const SUBSTITUTE = 1;
+const DELETE = 2;
+const INSERT = 3;
+
+/**
+ * Lowercases, folds typographic quotes and dashes, drops punctuation (keeping
+ * apostrophes inside words) and collapses whitespace.
+ */
+export function normalizeText(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[‘’ʼ]/g, "'")
+    .replace(/[-–—_/]/g, " ")
+    .replace(/[.,!?;:"“”„«»()[\]{}…¿¡*&%$#@^~`|<>+=]/g, " ")
+    .replace(/(^|\s)'+|'+(?=\s|$)/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export const toWords = (text: string) => {
+  const normalized = normalizeText(text);
+  return normalized ? normalized.split(" ") : [];
+};
+
+export const toCharacters = (text: string) => Array.from(normalizeText(text));
+
+/**
+ * Minimum-edit alignment of two token sequences. Uses memory proportional to
+ * the product of their lengths.
+ */
+export function alignTokens(
+  reference: string[],
+  hypothesis: string[]
+): AlignmentOp[] {
+  const rows = reference.length + 1;
+  const cols = hypothesis.length + 1;
+  const cost = new Uint32Array(rows * cols);
+  const step = new Uint8Array(rows * cols);
+
+  for (let i = 1; i < rows; i++) {
+    cost[i * cols] = i;
+    step[i * cols] = DELETE;
+  }
+  for (let j = 1; j < cols; j++) {
+    cost[j] = j;
+    step[j] = INSERT;
+  }
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const same = reference[i - 1] === hypothesis[j - 1];
+      let best = cost[(i - 1) * cols + j - 1] + (same ? 0 : 1);
+      let move = same ? MATCH : SUBSTITUTE;
+      const deletion = cost[(i - 1) * cols + j] + 1;
+      if (deletion < best) {
+        best = deletion;
+        move = DELETE;
+      }
+      const insertion = cost[i * cols + j - 1] + 1;
+      if (insertion < best) {
+        best = insertion;
+        move = INSERT;
+      }
+      cost[i * cols + j] = best;
+      step[i * cols + j] = move;
+    }
+  }
+
+  const ops: AlignmentOp[] = [];
+  let i = reference.length;
+  let j = hypothesis.length;
+  while (i > 0 || j > 0) {
+    const move = step[i * cols + j];
+    if (move === MATCH || move === SUBSTITUTE) {
+      ops.push({
+        type: move === MATCH ? "match" : "substitution",
+        reference: reference[i - 1],
+        hypothesis: hypothesis[j - 1],
+      });
+      i--;
+      j--;
+    } else if (move === DELETE) {
+      ops.push({ type: "deletion", reference: reference[i - 1] });
+      i--;
+    } else {
+      ops.push({ type: "insertion", hypothesis: hypothesis[j - 1] });
+      j--;
+    }
+  }
+  return ops.reverse();
+}
+
+/**
+ * The error counts of the alignment `alignTokens` would pick, keeping only two
+ * rows of the DP table.
+ */
+export function countTokenErrors(
+  reference: string[],
+  hypothesis: string[]
+): ErrorCounts {
+  const cols = hypothesis.length + 1;
+  // Per cell: edit cost and how many of each operation its path took
+  let previous = {
+    cost: new Uint32Array(cols),
+    hits: new Uint32Array(cols),
+    substitutions: new Uint32Array(cols),
+    deletions: new Uint32Array(cols),
+    insertions: new Uint32Array(cols),
+  };
+  for (let j = 1; j < cols; j++) {
+    previous.cost[j] = j;
+    previous.insertions[j] = j;
+  }
+  let current = {
+    cost: new Uint32Array(cols),
+    hits: new Uint32Array(cols),
+    substitutions: new Uint32Array(cols),
+    deletions: new Uint32Array(cols),
+    insertions: new Uint32Array(cols),
+  };
+
+  for (let i = 1; i <= reference.length; i++) {
+    current.cost[0] = i;
+    current.hits[0] = 0;
+    current.substitutions[0] = 0;
+    current.deletions[0] = i;
+    current.insertions[0] = 0;
+    for (let j = 1; j < cols; j++) {
+      const same = reference[i - 1] === hypothesis[j - 1];
+      let best = previous.cost[j - 1] + (same ? 0 : 1);
+      let move = same ? MATCH : SUBSTITUTE;
+      if (previous.cost[j] + 1 < best) {
+        best = previous.cost[j] + 1;
+        move = DELETE;
+      }
+      if (current.cost[j - 1] + 1 < best) {
+        best = current.cost[j - 1] + 1;
+        move = INSERT;
+      }
+      // Insertions come from the left, deletions from above, the rest diagonally
+      const from = move === INSERT ? current : previous;
+      const k = move === DELETE ? j : j - 1;
+      current.cost[j] = best;
+      current.hits[j] = from.hits[k] + (move === MATCH ? 1 : 0);
+      current.substitutions[j] =
+        from.substitutions[k] + (move === SUBSTITUTE ? 1 : 0);
+      current.deletions[j] = from.deletions[k] + (move === DELETE ? 1 : 0);
+      current.insertions[j] = from.insertions[k] + (move === INSERT ? 1 : 0);
+    }
+    [previous, current] = [current, previous];
+  }
+
+  const last = cols - 1;
+  const counts = {
+    hits: previous.hits[last],
+    substitutions: previous.substitutions[last],
+    deletions: previous.deletions[last],
+    insertions: previous.insertions[last],
+  };
+  const referenceLength = reference.length;
+  const errors = counts.substitutions + counts.deletions + counts.insertions;
+  return {
+    ...counts,
+    referenceLength,
+    // An empty reference scores 0 only if nothing was inserted
+    rate: referenceLength > 0 ? errors / referenceLength : errors > 0 ? 1 : 0,
+  };
+}
+
+export function computeErrorRate(
+  reference: string[],
+  hypothesis: string[]
+): ErrorRate {
+  const cells = (reference.length + 1) * (hypothesis.length + 1);
+  return {
+    ...countTokenErrors(reference, hypothesis),
+    alignment:
+      cells <= MAX_ALIGNMENT_CELLS ? alignTokens(reference, hypothesis) : null,
+  };
+}
+
+export function evaluateTranscript(
+  reference: string,
+  hypothesis: string
+): TranscriptEvaluation {
+  return {
+    wer: computeErrorRate(toWords(reference), toWords(hypothesis)),
+    cer: countTokenErrors(toCharacters(reference), toCharacters(hypothesis)),
+  };
+}
+
+/**
+ * Corpus-level rate: total errors over total reference length, so long items
+ * weigh more than short ones (unlike averaging per-item rates).
+ */
+export function combineErrorRates(rates: ErrorCounts[]): ErrorCounts {
+  const total = rates.reduce(
+    (sum, rate) => ({
+      hits: sum.hits + rate.hits,
+      substitutions: sum.substitutions + rate.substitutions,
+      deletions: sum.deletions + rate.deletions,
+      insertions: sum.insertions + rate.insertions,
+      referenceLength: sum.referenceLength + rate.referenceLength,
+    }),
+    {
+      hits: 0,
+      substitutions: 0,
+      deletions: 0,
+      insertions: 0,
+      referenceLength: 0,
+    }
+  );
+  const errors = total.substitutions + total.deletions + total.insertions;
+  return {
+    ...total,
+    rate:
+      total.referenceLength > 0
+        ? errors / total.referenceLength
+        : errors > 0
+        ? 1
+        : 0,
+  };
+}
+
+export const formatErrorRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
@@ -0,0 +1,308 @@
+import React from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  ScrollView,
+} from "react-native";
+import {
+  BATCH_STATUS_LABELS,
+  canRetryBatchItem,
+  isBatchItemFinished,
+  type BatchItem,
+} from "../lib/batchQueue";
+
+const ACCENT_COLOR = "#0A84FF";
+
+interface BatchScreenProps {
+  items: BatchItem[];
+  // Why queued files aren't starting, e.g. no model is loaded
+  pausedReason?: string;
+  isAdding: boolean;
+  onAddFile: () => void;
+  onAddFolder: () => void;
+  onMove: (id: string, offset: number) => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+  onClose: () => void;
+}
+
+export default function BatchScreen({
+  items,
+  pausedReason,
+  isAdding,
+  onAddFile,
+  onAddFolder,
+  onMove,
+  onCancel,
+  onRetry,
+  onRemove,
+  onClearFinished,
+  onClose,
+}: BatchScreenProps) {
+  const queuedCount = items.filter((item) => item.status === "queued").length;
+  const doneCount = items.filter((item) => item.status === "done").length;
+  const hasFinished = items.some(isBatchItemFinished);
+
+  const renderAction = (
+    label: string,
+    onPress: () => void,
+    options: { disabled?: boolean; destructive?: boolean } = {}
+  ) => (
+    <TouchableOpacity onPress={onPress} disabled={options.disabled}>
+      <Text
+        style={[
+          options.destructive ? styles.deleteLink : styles.link,
+          options.disabled && styles.linkDisabled,
+        ]}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ScrollView contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.link}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Batch</Text>
+        <Text style={styles.subtitle}>
+          Queued files are transcribed one at a time with the current model and
+          settings, and each result is saved to History. The queue keeps running
+          when you leave this screen.
+        </Text>
+      </View>
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={[styles.button, isAdding && styles.buttonDisabled]}
+          onPress={onAddFile}
+          disabled={isAdding}
+        >
+          <Text style={styles.buttonText}>Add a file…</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, isAdding && styles.buttonDisabled]}
+          onPress={onAddFolder}
+          disabled={isAdding}
+        >
+          <Text style={styles.buttonText}>Add a folder…</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionLabel}>
+          Queue · {doneCount}/{items.length} done
+        </Text>
+        {hasFinished ? (
+          <TouchableOpacity onPress={onClearFinished}>
+            <Text style={styles.link}>Clear finished</Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+      {pausedReason && queuedCount > 0 ? (
+        <Text style={styles.notice}>{pausedReason}</Text>
+      ) : null}
+
+      {items.length === 0 ? (
+        <Text style={styles.placeholderText}>
+          Add audio files to transcribe them in one go.
+        </Text>
+      ) : (
+        items.map((item, index) => {
+          const isRunning = item.status === "running";
+          const showProgress = isRunning || item.status === "done";
+          return (
+            <View
+              key={item.id}
+              style={[styles.row, isRunning && styles.rowRunning]}
+            >
+              <Text style={styles.rowTitle} numberOfLines={1}>
+                {item.title}
+              </Text>
+              <Text style={styles.details}>
+                {isRunning && item.isPreparing
+                  ? "Preparing audio"
+                  : BATCH_STATUS_LABELS[item.status]}
+                {isRunning ? ` · ${Math.round(item.progress)}%` : ""}
+              </Text>
+              {showProgress ? (
+                <View style={styles.progressTrack}>
+                  <View
+                    style={[
+                      styles.progressFill,
+                      { width: `${Math.round(item.progress)}%` },
+                    ]}
+                  />
+                </View>
+              ) : null}
+              {item.error ? (
+                <Text style={styles.errorText} numberOfLines={3}>
+                  {item.error}
+                </Text>
+              ) : null}
+              <View style={styles.actions}>
+                {!isRunning ? (
+                  <>
+                    {renderAction("↑", () => onMove(item.id, -1), {
+                      disabled: index === 0,
+                    })}
+                    {renderAction("↓", () => onMove(item.id, 1), {
+                      disabled: index === items.length - 1,
+                    })}
+                  </>
+                ) : null}
+                {isRunning || item.status === "queued"
+                  ? renderAction("Cancel", () => onCancel(item.id), {
+                      destructive: true,
+                    })
+                  : null}
+                {canRetryBatchItem(item)
+                  ? renderAction(item.jobId ? "Resume" : "Retry", () =>
+                      onRetry(item.id)
+                    )
+                  : null}
+                {!isRunning
+                  ? renderAction("Remove", () => onRemove(item.id), {
+                      destructive: true,
+                    })
+                  : null}
+              </View>
+            </View>
+          );
+        })
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 48,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "700",
+    color: "#111111",
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: "#555555",
+  },
+  buttonRow: {
+    flexDirection: "row",
+    columnGap: 12,
+  },
+  button: {
+    flex: 1,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#d1d1d6",
+    paddingVertical: 14,
+    alignItems: "center",
+    backgroundColor: "#ffffff",
+  },
+  buttonText: {
+    color: "#111111",
+    fontSize: 14,
+    fontWeight: "600",
+    letterSpacing: 0.3,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#8e8e93",
+    textTransform: "uppercase",
+    letterSpacing: 0.6,
+  },
+  notice: {
+    fontSize: 12,
+    color: "#666666",
+    marginBottom: 12,
+  },
+  placeholderText: {
+    fontSize: 14,
+    color: "#8e8e93",
+  },
+  row: {
+    borderWidth: 1,
+    borderColor: "#e5e5ea",
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 12,
+    backgroundColor: "#ffffff",
+  },
+  rowRunning: {
+    borderColor: ACCENT_COLOR,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111111",
+    marginBottom: 6,
+  },
+  details: {
+    fontSize: 12,
+    color: "#666666",
+    marginBottom: 4,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: "#e5e5ea",
+    overflow: "hidden",
+    marginVertical: 6,
+  },
+  progressFill: {
+    height: 4,
+    backgroundColor: ACCENT_COLOR,
+  },
+  errorText: {
+    fontSize: 12,
+    color: "#b3261e",
+    marginBottom: 4,
+  },
+  actions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    columnGap: 16,
+    rowGap: 8,
+    marginTop: 8,
+  },
+  link: {
+    color: ACCENT_COLOR,
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  deleteLink: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  linkDisabled: {
+    opacity: 0.4,
+  },
+});
@@ -0,0 +1,374 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+} from "react-native";
+import { getAppDirectory } from "../lib/appFiles";
+import {
+  BENCHMARK_AUDIO,
+  benchmarkModel,
+  createBenchmarkRunId,
+  getBenchmarkDevice,
+  readBenchmarkResults,
+  writeBenchmarkResults,
+  type BenchmarkResult,
+} from "../lib/benchmark";
+import type { WhisperModel } from "../lib/modelRegistry";
+
+const ACCENT_COLOR = "#0A84FF";
+
+interface BenchmarkScreenProps {
+  // Downloaded models with the path of their weights
+  models: { model: WhisperModel; path: string }[];
+  // Frees loaded contexts so every model is measured from a cold start
+  onBeforeRun: () => Promise<void>;
+  onClose: () => void;
+}
+
+interface BenchmarkRun {
+  runId: string;
+  createdAt: number;
+  os: string;
+  results: BenchmarkResult[];
+}
+
+const formatMs = (ms: number) =>
+  ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+
+const formatMemory = (result: BenchmarkResult) =>
+  result.peakMemoryMB === null
+    ? "n/a"
+    : `${Math.round(result.peakMemoryMB)}MB` +
+      (result.baselineMemoryMB !== null
+        ? ` (+${Math.round(result.peakMemoryMB - result.baselineMemoryMB)})`
+        : "");
+
+// Newest run first, results within a run in the order they were measured
+const groupRuns = (results: BenchmarkResult[]): BenchmarkRun[] => {
+  const runs = new Map<string, BenchmarkRun>();
+  for (const result of results) {
+    const run = runs.get(result.runId);
+    if (run) {
+      run.results.push(result);
+    } else {
+      runs.set(result.runId, {
+        runId: result.runId,
+        createdAt: result.createdAt,
+        os: result.device.os,
+        results: [result],
+      });
+    }
+  }
+  return [...runs.values()].sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export default function BenchmarkScreen({
+  models,
+  onBeforeRun,
+  onClose,
+}: BenchmarkScreenProps) {
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progressText, setProgressText] = useState("");
+  const stopRequestedRef = useRef(false);
+  const device = getBenchmarkDevice();
+
+  useEffect(() => {
+    setResults(readBenchmarkResults(getAppDirectory()));
+  }, []);
+
+  const runBenchmark = async () => {
+    if (models.length === 0) return;
+    setIsRunning(true);
+    stopRequestedRef.current = false;
+    const runId = createBenchmarkRunId();
+    let saved = readBenchmarkResults(getAppDirectory());
+
+    try {
+      await onBeforeRun();
+      for (const [index, { model, path }] of models.entries()) {
+        if (stopRequestedRef.current) break;
+        const prefix = `${index + 1}/${models.length} · ${model.label}`;
+        const modelResults = await benchmarkModel(
+          model,
+          path,
+          runId,
+          (stage, audio) =>
+            setProgressText(
+              stage === "loading"
+                ? `${prefix} · loading`
+                : `${prefix} · ${audio?.label ?? "transcribing"}`
+            )
+        );
+        // Saved after each model so an interrupted run keeps what it measured
+        saved = [...saved, ...modelResults];
+        writeBenchmarkResults(getAppDirectory(), saved);
+        setResults(saved);
+      }
+    } catch (err) {
+      console.error("Benchmark failed:", err);
+      Alert.alert("Benchmark Error", `Benchmark failed: ${err}`);
+    } finally {
+      setIsRunning(false);
+      setProgressText("");
+    }
+  };
+
+  const clearResults = () => {
+    Alert.alert(
+      "Clear Results",
+      "Delete benchmark results from every device?",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Clear",
+          style: "destructive",
+          onPress: () => {
+            writeBenchmarkResults(getAppDirectory(), []);
+            setResults([]);
+          },
+        },
+      ]
+    );
+  };
+
+  const renderRun = (run: BenchmarkRun) => (
+    <View key={run.runId} style={styles.card}>
+      <Text style={styles.runTitle}>
+        {new Date(run.createdAt).toLocaleString()}
+      </Text>
+      <Text style={styles.details}>{run.os}</Text>
+      <View style={[styles.resultRow, styles.resultHeader]}>
+        <Text style={[styles.cell, styles.modelCell]}>Model</Text>
+        <Text style={styles.cell}>Load</Text>
+        <Text style={styles.cell}>Transcribe</Text>
+        <Text style={styles.cell}>RTF</Text>
+        {/* Resident memory is only readable on Android */}
+        <Text style={styles.cell}>Peak mem (Android)</Text>
+      </View>
+      {run.results.map((result) => (
+        <View
+          key={`${result.modelId}-${result.audioId}`}
+          style={styles.resultRow}
+        >
+          <Text style={[styles.cell, styles.modelCell]} numberOfLines={1}>
+            {result.modelLabel}
+            {BENCHMARK_AUDIO.length > 1 ? ` · ${result.audioId}` : ""}
+          </Text>
+          <Text style={styles.cell}>{formatMs(result.loadMs)}</Text>
+          <Text style={styles.cell}>{formatMs(result.transcribeMs)}</Text>
+          <Text style={styles.cell}>{result.realTimeFactor.toFixed(2)}</Text>
+          <Text style={styles.cell}>{formatMemory(result)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  const deviceRuns = groupRuns(
+    results.filter((result) => result.device.key === device.key)
+  );
+  const otherDevices = [
+    ...new Set(
+      results
+        .filter((result) => result.device.key !== device.key)
+        .map((result) => result.device.key)
+    ),
+  ].map((key) => {
+    const deviceResults = results.filter((r) => r.device.key === key);
+    return {
+      key,
+      label: deviceResults[0].device.label,
+      runs: groupRuns(deviceResults),
+    };
+  });
+
+  return (
+    <ScrollView contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onClose} disabled={isRunning}>
+          <Text style={[styles.link, isRunning && styles.linkDisabled]}>
+            ‹ Back
+          </Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Benchmark</Text>
+        <Text style={styles.subtitle}>
+          Loads every downloaded model from scratch and transcribes{" "}
+          {BENCHMARK_AUDIO.map((audio) => audio.label).join(", ")}. RTF is
+          transcription time divided by audio length; below 1 is faster than
+          real time.
+        </Text>
+      </View>
+
+      <TouchableOpacity
+        style={[
+          styles.button,
+          isRunning ? styles.stopButton : styles.primaryButton,
+          models.length === 0 && styles.buttonDisabled,
+        ]}
+        onPress={
+          isRunning
+            ? () => {
+                stopRequestedRef.current = true;
+                setProgressText("Stopping after this model…");
+              }
+            : runBenchmark
+        }
+        disabled={models.length === 0}
+      >
+        <Text style={styles.buttonText}>
+          {isRunning
+            ? "Stop after this model"
+            : `Run on ${models.length} model${models.length === 1 ? "" : "s"}`}
+        </Text>
+      </TouchableOpacity>
+      {progressText ? (
+        <Text style={styles.details}>{progressText}</Text>
+      ) : models.length === 0 ? (
+        <Text style={styles.details}>Download a model to benchmark it.</Text>
+      ) : null}
+
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionLabel}>This device · {device.label}</Text>
+        {results.length > 0 && !isRunning ? (
+          <TouchableOpacity onPress={clearResults}>
+            <Text style={styles.deleteLink}>Clear</Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+      {deviceRuns.length === 0 ? (
+        <Text style={styles.placeholderText}>No runs on this device yet.</Text>
+      ) : (
+        deviceRuns.map(renderRun)
+      )}
+
+      {otherDevices.map((other) => (
+        <View key={other.key}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionLabel}>{other.label}</Text>
+          </View>
+          {other.runs.map(renderRun)}
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 48,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "700",
+    color: "#111111",
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: "#555555",
+  },
+  details: {
+    fontSize: 12,
+    color: "#666666",
+    marginBottom: 4,
+  },
+  button: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    marginBottom: 8,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  primaryButton: {
+    backgroundColor: ACCENT_COLOR,
+  },
+  stopButton: {
+    backgroundColor: "#ff3b30",
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    color: "#ffffff",
+    fontSize: 14,
+    fontWeight: "600",
+    letterSpacing: 0.3,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#8e8e93",
+    textTransform: "uppercase",
+    letterSpacing: 0.6,
+  },
+  card: {
+    backgroundColor: "#ffffff",
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#e5e5ea",
+    padding: 16,
+    marginBottom: 12,
+  },
+  runTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111111",
+    marginBottom: 4,
+  },
+  resultRow: {
+    flexDirection: "row",
+    paddingVertical: 6,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: "#e5e5ea",
+  },
+  resultHeader: {
+    marginTop: 8,
+    borderTopWidth: 0,
+  },
+  cell: {
+    flex: 1,
+    fontSize: 12,
+    color: "#333333",
+    fontVariant: ["tabular-nums"],
+  },
+  modelCell: {
+    flex: 1.6,
+    fontWeight: "600",
+  },
+  placeholderText: {
+    fontSize: 14,
+    color: "#8e8e93",
+  },
+  link: {
+    color: ACCENT_COLOR,
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  linkDisabled: {
+    opacity: 0.4,
+  },
+  deleteLink: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,453 @@
+import React, { useEffect, useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+} from "react-native";
+import type { TranscribeOptions, WhisperContext } from "whisper.rn/index.js";
+import { getAppDirectory } from "../lib/appFiles";
+import {
+  importEvaluationPair,
+  readEvaluationPairs,
+  readEvaluationRuns,
+  removeEvaluationPair,
+  runEvaluation,
+  saveEvaluationRun,
+  SAMPLE_PAIR_ID,
+  type EvaluationPair,
+  type EvaluationRun,
+} from "../lib/evaluation";
+import {
+  formatErrorRate,
+  type AlignmentOp,
+  type ErrorCounts,
+} from "../lib/wer";
+
+const ACCENT_COLOR = "#0A84FF";
+
+interface EvaluationScreenProps {
+  whisperContext: WhisperContext | null;
+  modelId: string | null;
+  // Options file transcription would use, so scores match what users get
+  transcribeOptions: TranscribeOptions;
+  getModelLabel: (modelId: string) => string;
+  onClose: () => void;
+}
+
+const formatCounts = (counts: ErrorCounts) =>
+  `S ${counts.substitutions} · D ${counts.deletions} · I ${counts.insertions} · N ${counts.referenceLength}`;
+
+export default function EvaluationScreen({
+  whisperContext,
+  modelId,
+  transcribeOptions,
+  getModelLabel,
+  onClose,
+}: EvaluationScreenProps) {
+  const [pairs, setPairs] = useState<EvaluationPair[]>([]);
+  const [runs, setRuns] = useState<EvaluationRun[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [expandedPairId, setExpandedPairId] = useState<string | null>(null);
+  const [progressText, setProgressText] = useState("");
+  const [isRunning, setIsRunning] = useState(false);
+
+  useEffect(() => {
+    setPairs(readEvaluationPairs(getAppDirectory()));
+    setRuns(readEvaluationRuns(getAppDirectory()));
+  }, []);
+
+  const selectedRun =
+    runs.find((run) => run.id === selectedRunId) ?? runs[0] ?? null;
+
+  const handleAddPair = async () => {
+    try {
+      const updated = await importEvaluationPair(getAppDirectory());
+      if (updated) setPairs(updated);
+    } catch (err) {
+      console.error("Failed to add evaluation pair:", err);
+      Alert.alert("Evaluation", `Failed to add pair: ${err}`);
+    }
+  };
+
+  const handleRemovePair = (pair: EvaluationPair) => {
+    Alert.alert("Remove Pair", `Remove "${pair.label}" from the set?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: () =>
+          setPairs(removeEvaluationPair(getAppDirectory(), pair.id)),
+      },
+    ]);
+  };
+
+  const handleRun = async () => {
+    if (!whisperContext || !modelId) return;
+    setIsRunning(true);
+    try {
+      const run = await runEvaluation(
+        whisperContext,
+        pairs,
+        { ...transcribeOptions, modelId },
+        (index, pair) =>
+          setProgressText(`${index + 1}/${pairs.length} · ${pair.label}`)
+      );
+      setRuns(saveEvaluationRun(getAppDirectory(), run));
+      setSelectedRunId(run.id);
+      setExpandedPairId(null);
+    } catch (err) {
+      console.error("Evaluation failed:", err);
+      Alert.alert("Evaluation Error", `Evaluation failed: ${err}`);
+    } finally {
+      setIsRunning(false);
+      setProgressText("");
+    }
+  };
+
+  const renderAlignment = (alignment: AlignmentOp[]) => (
+    <Text style={styles.alignment}>
+      {alignment.map((op, index) => {
+        const separator = index > 0 ? " " : "";
+        switch (op.type) {
+          case "match":
+            return `${separator}${op.reference}`;
+          case "substitution":
+            return (
+              <Text key={index}>
+                {separator}
+                <Text style={styles.substitution}>
+                  {op.reference}→{op.hypothesis}
+                </Text>
+              </Text>
+            );
+          case "deletion":
+            return (
+              <Text key={index}>
+                {separator}
+                <Text style={styles.deletion}>{op.reference}</Text>
+              </Text>
+            );
+          case "insertion":
+            return (
+              <Text key={index}>
+                {separator}
+                <Text style={styles.insertion}>+{op.hypothesis}</Text>
+              </Text>
+            );
+        }
+      })}
+    </Text>
+  );
+
+  return (
+    <ScrollView contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onClose} disabled={isRunning}>
+          <Text style={[styles.link, isRunning && styles.linkDisabled]}>
+            ‹ Back
+          </Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Accuracy</Text>
+        <Text style={styles.subtitle}>
+          Transcribes each audio file and compares it with its reference after
+          ignoring case and punctuation. WER counts word errors, CER character
+          errors: substitutions (S), deletions (D) and insertions (I) over the
+          reference length (N).
+        </Text>
+      </View>
+
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionLabel}>Evaluation set</Text>
+        <TouchableOpacity onPress={handleAddPair} disabled={isRunning}>
+          <Text style={styles.link}>Add audio + reference…</Text>
+        </TouchableOpacity>
+      </View>
+      {pairs.map((pair) => (
+        <View key={pair.id} style={styles.row}>
+          <View style={styles.rowMeta}>
+            <Text style={styles.rowTitle} numberOfLines={1}>
+              {pair.label}
+            </Text>
+            <Text style={styles.preview} numberOfLines={2}>
+              {pair.reference}
+            </Text>
+          </View>
+          {pair.id !== SAMPLE_PAIR_ID ? (
+            <TouchableOpacity
+              onPress={() => handleRemovePair(pair)}
+              disabled={isRunning}
+            >
+              <Text style={styles.deleteLink}>Remove</Text>
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      ))}
+
+      <TouchableOpacity
+        style={[
+          styles.button,
+          (!whisperContext || isRunning) && styles.buttonDisabled,
+        ]}
+        onPress={handleRun}
+        disabled={!whisperContext || isRunning}
+      >
+        <Text style={styles.buttonText}>
+          {isRunning
+            ? "Evaluating…"
+            : modelId
+            ? `Evaluate ${getModelLabel(modelId)}`
+            : "Load a model to evaluate"}
+        </Text>
+      </TouchableOpacity>
+      {progressText ? <Text style={styles.details}>{progressText}</Text> : null}
+
+      {selectedRun ? (
+        <>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionLabel}>
+              {getModelLabel(selectedRun.modelId)} ·{" "}
+              {new Date(selectedRun.createdAt).toLocaleString()}
+            </Text>
+          </View>
+          <View style={styles.card}>
+            <View style={styles.scoreRow}>
+              <View style={styles.score}>
+                <Text style={styles.scoreValue}>
+                  {formatErrorRate(selectedRun.wer.rate)}
+                </Text>
+                <Text style={styles.details}>WER</Text>
+              </View>
+              <View style={styles.score}>
+                <Text style={styles.scoreValue}>
+                  {formatErrorRate(selectedRun.cer.rate)}
+                </Text>
+                <Text style={styles.details}>CER</Text>
+              </View>
+            </View>
+            <Text style={styles.details}>{formatCounts(selectedRun.wer)}</Text>
+          </View>
+          {selectedRun.items.map((item) => {
+            const isExpanded = expandedPairId === item.pairId;
+            return (
+              <TouchableOpacity
+                key={item.pairId}
+                style={styles.card}
+                onPress={() =>
+                  setExpandedPairId(isExpanded ? null : item.pairId)
+                }
+              >
+                <Text style={styles.rowTitle}>{item.label}</Text>
+                <Text style={styles.details}>
+                  WER {formatErrorRate(item.wer.rate)} ·{" "}
+                  {formatCounts(item.wer)}
+                </Text>
+                <Text style={styles.details}>
+                  CER {formatErrorRate(item.cer.rate)}
+                </Text>
+                {isExpanded ? (
+                  <>
+                    {item.wer.alignment ? (
+                      renderAlignment(item.wer.alignment)
+                    ) : (
+                      <Text style={styles.details}>
+                        Too long to show an alignment.
+                      </Text>
+                    )}
+                    <Text style={styles.details}>Transcript</Text>
+                    <Text style={styles.preview}>
+                      {item.hypothesis || "(empty)"}
+                    </Text>
+                  </>
+                ) : (
+                  <Text style={styles.link}>Show alignment</Text>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </>
+      ) : null}
+
+      {runs.length > 1 ? (
+        <>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionLabel}>Earlier runs</Text>
+          </View>
+          {runs.map((run) => (
+            <TouchableOpacity
+              key={run.id}
+              style={[
+                styles.row,
+                run.id === selectedRun?.id && styles.rowSelected,
+              ]}
+              onPress={() => {
+                setSelectedRunId(run.id);
+                setExpandedPairId(null);
+              }}
+            >
+              <View style={styles.rowMeta}>
+                <Text style={styles.rowTitle}>
+                  {getModelLabel(run.modelId)}
+                </Text>
+                <Text style={styles.details}>
+                  {new Date(run.createdAt).toLocaleString()} ·{" "}
+                  {run.items.length} item{run.items.length === 1 ? "" : "s"}
+                </Text>
+              </View>
+              <Text style={styles.details}>
+                WER {formatErrorRate(run.wer.rate)} · CER{" "}
+                {formatErrorRate(run.cer.rate)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </>
+      ) : null}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 48,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "700",
+    color: "#111111",
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: "#555555",
+  },
+  details: {
+    fontSize: 12,
+    color: "#666666",
+    marginBottom: 4,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  sectionLabel: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#8e8e93",
+    textTransform: "uppercase",
+    letterSpacing: 0.6,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    justifyContent: "space-between",
+    borderWidth: 1,
+    borderColor: "#e5e5ea",
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 12,
+    backgroundColor: "#ffffff",
+  },
+  rowSelected: {
+    borderColor: ACCENT_COLOR,
+  },
+  rowMeta: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111111",
+    marginBottom: 6,
+  },
+  preview: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: "#333333",
+  },
+  button: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    marginTop: 12,
+    marginBottom: 8,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: ACCENT_COLOR,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    color: "#ffffff",
+    fontSize: 14,
+    fontWeight: "600",
+    letterSpacing: 0.3,
+  },
+  card: {
+    backgroundColor: "#ffffff",
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#e5e5ea",
+    padding: 16,
+    marginBottom: 12,
+  },
+  scoreRow: {
+    flexDirection: "row",
+    columnGap: 32,
+    marginBottom: 8,
+  },
+  score: {
+    alignItems: "flex-start",
+  },
+  scoreValue: {
+    fontSize: 24,
+    fontWeight: "700",
+    color: "#111111",
+    fontVariant: ["tabular-nums"],
+  },
+  alignment: {
+    fontSize: 14,
+    lineHeight: 22,
+    color: "#111111",
+    marginVertical: 8,
+  },
+  substitution: {
+    color: "#b25000",
+    backgroundColor: "#fff4e5",
+  },
+  deletion: {
+    color: "#b3261e",
+    textDecorationLine: "line-through",
+  },
+  insertion: {
+    color: "#1b7f3b",
+    backgroundColor: "#eaf7ee",
+  },
+  link: {
+    color: ACCENT_COLOR,
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  linkDisabled: {
+    opacity: 0.4,
+  },
+  deleteLink: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+});
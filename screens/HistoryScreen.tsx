@@ -0,0 +1,345 @@
+import React, { useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+} from "react-native";
+import { File } from "expo-file-system";
+import ExportActions from "../components/ExportActions";
+import SegmentList from "../components/SegmentList";
+import { getLanguageLabel, getTaskLabel } from "../lib/language";
+import { hasSpeakers } from "../lib/speakers";
+import type { TranscriptEntry } from "../lib/transcriptStore";
+
+const ACCENT_COLOR = "#0A84FF";
+
+interface HistoryScreenProps {
+  transcripts: TranscriptEntry[];
+  getModelLabel: (modelId: string) => string;
+  onRename: (id: string, title: string) => void;
+  onRenameSpeaker: (id: string, speaker: number, name: string) => void;
+  onDelete: (id: string) => void;
+  // Label of the model a session's audio would be transcribed with; unset while it is busy
+  transcribeAgainLabel?: string;
+  onTranscribeAgain: (entry: TranscriptEntry) => void;
+  onClose: () => void;
+}
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+export default function HistoryScreen({
+  transcripts,
+  getModelLabel,
+  onRename,
+  onRenameSpeaker,
+  onDelete,
+  transcribeAgainLabel,
+  onTranscribeAgain,
+  onClose,
+}: HistoryScreenProps) {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState<string | null>(null);
+
+  const openEntry = transcripts.find((t) => t.id === openId) ?? null;
+  // The source audio may have been deleted since the session was saved
+  const openAudioUri =
+    openEntry?.audioUri && new File(openEntry.audioUri).exists
+      ? openEntry.audioUri
+      : undefined;
+
+  const handleRename = () => {
+    if (!openEntry || editingTitle === null) return;
+    try {
+      onRename(openEntry.id, editingTitle);
+      setEditingTitle(null);
+    } catch (err) {
+      Alert.alert("Rename", `${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  const handleRenameSpeaker = (
+    entry: TranscriptEntry,
+    speaker: number,
+    name: string
+  ) => {
+    try {
+      onRenameSpeaker(entry.id, speaker, name);
+    } catch (err) {
+      Alert.alert("Rename", `${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  const handleDelete = (entry: TranscriptEntry) => {
+    Alert.alert("Delete Transcript", `Delete "${entry.title}"?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () => {
+          onDelete(entry.id);
+          if (openId === entry.id) setOpenId(null);
+        },
+      },
+    ]);
+  };
+
+  const renderDetails = (entry: TranscriptEntry) =>
+    [
+      entry.source === "live" ? "Live" : "File",
+      getModelLabel(entry.modelId),
+      getLanguageLabel(entry.language),
+      getTaskLabel(entry.task),
+      formatDuration(entry.durationMs),
+    ].join(" · ");
+
+  if (openEntry) {
+    return (
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.header}>
+          <TouchableOpacity
+            onPress={() => {
+              setOpenId(null);
+              setEditingTitle(null);
+            }}
+          >
+            <Text style={styles.link}>‹ History</Text>
+          </TouchableOpacity>
+        </View>
+
+        {editingTitle !== null ? (
+          <View style={styles.renameRow}>
+            <TextInput
+              style={styles.textInput}
+              value={editingTitle}
+              onChangeText={setEditingTitle}
+              autoFocus
+              onSubmitEditing={handleRename}
+            />
+            <View style={styles.actions}>
+              <TouchableOpacity onPress={() => setEditingTitle(null)}>
+                <Text style={styles.deleteLink}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleRename}>
+                <Text style={styles.link}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <Text style={styles.title}>{openEntry.title}</Text>
+        )}
+        <Text style={styles.details}>{renderDetails(openEntry)}</Text>
+        <Text style={styles.details}>{formatDate(openEntry.createdAt)}</Text>
+
+        <View style={[styles.actions, styles.detailActions]}>
+          <TouchableOpacity onPress={() => setEditingTitle(openEntry.title)}>
+            <Text style={styles.link}>Rename</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => handleDelete(openEntry)}>
+            <Text style={styles.deleteLink}>Delete</Text>
+          </TouchableOpacity>
+          {openAudioUri ? (
+            <TouchableOpacity
+              onPress={() => onTranscribeAgain(openEntry)}
+              disabled={!transcribeAgainLabel}
+            >
+              <Text
+                style={[
+                  styles.link,
+                  !transcribeAgainLabel && styles.linkDisabled,
+                ]}
+              >
+                {transcribeAgainLabel
+                  ? `Transcribe again with ${transcribeAgainLabel}`
+                  : "Transcribe again"}
+              </Text>
+            </TouchableOpacity>
+          ) : null}
+        </View>
+
+        <View style={styles.card}>
+          {(openEntry.source === "file" ||
+            openAudioUri ||
+            hasSpeakers(openEntry.segments)) &&
+          openEntry.segments.length > 0 ? (
+            <SegmentList
+              segments={openEntry.segments}
+              audioUri={openAudioUri}
+              speakers={openEntry.speakers}
+              onRenameSpeaker={(speaker, name) =>
+                handleRenameSpeaker(openEntry, speaker, name)
+              }
+            />
+          ) : (
+            <Text style={styles.cardText}>
+              {openEntry.text || "No speech was transcribed."}
+            </Text>
+          )}
+          {openEntry.text ? <ExportActions transcript={openEntry} /> : null}
+        </View>
+      </ScrollView>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.link}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>History</Text>
+        <Text style={styles.subtitle}>
+          Every file and live session is saved on this device.
+        </Text>
+      </View>
+
+      {transcripts.length === 0 ? (
+        <Text style={styles.placeholderText}>
+          Transcripts you create will show up here.
+        </Text>
+      ) : (
+        transcripts.map((entry) => (
+          <TouchableOpacity
+            key={entry.id}
+            style={styles.row}
+            onPress={() => setOpenId(entry.id)}
+          >
+            <View style={styles.rowMeta}>
+              <Text style={styles.rowTitle} numberOfLines={1}>
+                {entry.title}
+              </Text>
+              <Text style={styles.details}>{renderDetails(entry)}</Text>
+              <Text style={styles.preview} numberOfLines={2}>
+                {entry.text || "No speech was transcribed."}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={() => handleDelete(entry)}>
+              <Text style={styles.deleteLink}>Delete</Text>
+            </TouchableOpacity>
+          </TouchableOpacity>
+        ))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 48,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "700",
+    color: "#111111",
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: "#555555",
+  },
+  details: {
+    fontSize: 12,
+    color: "#666666",
+    marginBottom: 4,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    justifyContent: "space-between",
+    borderWidth: 1,
+    borderColor: "#e5e5ea",
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 12,
+    backgroundColor: "#ffffff",
+  },
+  rowMeta: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111111",
+    marginBottom: 6,
+  },
+  preview: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: "#333333",
+  },
+  placeholderText: {
+    fontSize: 14,
+    color: "#8e8e93",
+  },
+  renameRow: {
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "#e5e5ea",
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: "#111111",
+    backgroundColor: "#ffffff",
+    marginBottom: 8,
+  },
+  actions: {
+    flexDirection: "row",
+    columnGap: 16,
+  },
+  detailActions: {
+    flexWrap: "wrap",
+    rowGap: 8,
+    marginTop: 8,
+    marginBottom: 20,
+  },
+  card: {
+    backgroundColor: "#ffffff",
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#e5e5ea",
+    padding: 20,
+  },
+  cardText: {
+    fontSize: 16,
+    lineHeight: 24,
+    color: "#111111",
+  },
+  link: {
+    color: ACCENT_COLOR,
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  deleteLink: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  linkDisabled: {
+    opacity: 0.4,
+  },
+});
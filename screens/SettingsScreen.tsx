@@ -0,0 +1,286 @@
+import React from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  ScrollView,
+} from "react-native";
+import type { WhisperModel } from "../lib/modelRegistry";
+import {
+  getRecommendedPresetId,
+  TRANSCRIPTION_PRESETS,
+  type ModelSettings,
+  type TranscriptionPresetId,
+  type TranscriptionSettings,
+} from "../lib/transcriptionSettings";
+
+const ACCENT_COLOR = "#0A84FF";
+
+type NumericSetting = Exclude<keyof TranscriptionSettings, "tokenTimestamps">;
+
+interface SettingControl {
+  key: NumericSetting;
+  label: string;
+  step: number;
+  format: (value: number) => string;
+}
+
+const DECODING_CONTROLS: SettingControl[] = [
+  {
+    key: "maxThreads",
+    label: "Threads",
+    step: 1,
+    format: (value) => (value === 0 ? "Auto" : `${value}`),
+  },
+  {
+    key: "beamSize",
+    label: "Beam size",
+    step: 1,
+    format: (value) => (value === 1 ? "Greedy" : `${value}`),
+  },
+  { key: "bestOf", label: "Best of", step: 1, format: (value) => `${value}` },
+  {
+    key: "temperature",
+    label: "Temperature",
+    step: 0.1,
+    format: (value) => value.toFixed(1),
+  },
+  {
+    key: "maxLen",
+    label: "Max segment length",
+    step: 10,
+    format: (value) => (value === 0 ? "Off" : `${value} chars`),
+  },
+];
+
+const LIVE_CONTROLS: SettingControl[] = [
+  {
+    key: "realtimeAudioSliceSec",
+    label: "Slice length",
+    step: 5,
+    format: (value) => `${value} s`,
+  },
+  {
+    key: "realtimeAudioMinSec",
+    label: "Min audio before transcribing",
+    step: 0.5,
+    format: (value) => `${value} s`,
+  },
+];
+
+interface SettingsScreenProps {
+  model: WhisperModel;
+  modelSettings: ModelSettings;
+  onChange: (changes: Partial<TranscriptionSettings>) => void;
+  onApplyPreset: (presetId: TranscriptionPresetId) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+export default function SettingsScreen({
+  model,
+  modelSettings,
+  onChange,
+  onApplyPreset,
+  onReset,
+  onClose,
+}: SettingsScreenProps) {
+  const { presetId, settings } = modelSettings;
+  const recommendedPresetId = getRecommendedPresetId(model);
+
+  const renderControl = ({ key, label, step, format }: SettingControl) => (
+    <View key={key} style={styles.settingRow}>
+      <Text style={styles.settingLabel}>{label}</Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity
+          onPress={() =>
+            // Round away floating point drift from repeated 0.1 steps
+            onChange({ [key]: Math.round((settings[key] - step) * 10) / 10 })
+          }
+        >
+          <Text style={styles.stepperButton}>−</Text>
+        </TouchableOpacity>
+        <Text style={styles.stepperValue}>{format(settings[key])}</Text>
+        <TouchableOpacity
+          onPress={() =>
+            onChange({ [key]: Math.round((settings[key] + step) * 10) / 10 })
+          }
+        >
+          <Text style={styles.stepperButton}>+</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <ScrollView contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.link}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Settings</Text>
+        <Text style={styles.subtitle}>
+          Decoding and live capture settings for {model.label}. Every model
+          keeps its own; changes apply to the next file or live session.
+        </Text>
+      </View>
+
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionLabel}>Preset</Text>
+        {presetId !== recommendedPresetId ? (
+          <TouchableOpacity onPress={onReset}>
+            <Text style={styles.link}>Use recommended</Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+      {TRANSCRIPTION_PRESETS.map((preset) => (
+        <TouchableOpacity
+          key={preset.id}
+          style={[styles.row, presetId === preset.id && styles.rowSelected]}
+          onPress={() => onApplyPreset(preset.id)}
+        >
+          <Text style={styles.rowTitle}>
+            {preset.label}
+            {preset.id === recommendedPresetId ? " · recommended" : ""}
+          </Text>
+          <Text style={styles.details}>{preset.description}</Text>
+        </TouchableOpacity>
+      ))}
+      {presetId === "custom" ? (
+        <Text style={styles.details}>Custom values are in use.</Text>
+      ) : null}
+
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionLabel}>Decoding</Text>
+      </View>
+      <View style={styles.card}>
+        {DECODING_CONTROLS.map(renderControl)}
+        <View style={styles.settingRow}>
+          <Text style={styles.settingLabel}>Token timestamps</Text>
+          <TouchableOpacity
+            // Segment length limits rely on token timestamps
+            disabled={settings.maxLen > 0}
+            onPress={() =>
+              onChange({ tokenTimestamps: !settings.tokenTimestamps })
+            }
+          >
+            <Text
+              style={[styles.link, settings.maxLen > 0 && styles.linkDisabled]}
+            >
+              {settings.tokenTimestamps ? "On" : "Off"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionLabel}>Live</Text>
+      </View>
+      <View style={styles.card}>{LIVE_CONTROLS.map(renderControl)}</View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 48,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "700",
+    color: "#111111",
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: "#555555",
+  },
+  details: {
+    fontSize: 12,
+    color: "#666666",
+    marginBottom: 4,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#8e8e93",
+    textTransform: "uppercase",
+    letterSpacing: 0.6,
+  },
+  row: {
+    borderWidth: 1,
+    borderColor: "#e5e5ea",
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 12,
+    backgroundColor: "#ffffff",
+  },
+  rowSelected: {
+    borderColor: ACCENT_COLOR,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111111",
+    marginBottom: 6,
+  },
+  card: {
+    backgroundColor: "#ffffff",
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#e5e5ea",
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  settingRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 8,
+  },
+  settingLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: "#111111",
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    columnGap: 12,
+  },
+  stepperButton: {
+    color: ACCENT_COLOR,
+    fontSize: 18,
+    fontWeight: "600",
+    paddingHorizontal: 6,
+  },
+  stepperValue: {
+    minWidth: 64,
+    textAlign: "center",
+    fontSize: 13,
+    color: "#333333",
+  },
+  link: {
+    color: ACCENT_COLOR,
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  linkDisabled: {
+    opacity: 0.4,
+  },
+});
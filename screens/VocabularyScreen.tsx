@@ -0,0 +1,331 @@
+import React, { useState } from "react";
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+} from "react-native";
+import type { VocabularyListInput } from "../hooks/useVocabulary";
+import {
+  compileVocabularyPrompt,
+  parseTerms,
+  PROMPT_TOKEN_LIMIT,
+  type VocabularyList,
+  type VocabularyState,
+} from "../lib/vocabulary";
+
+const ACCENT_COLOR = "#0A84FF";
+
+interface VocabularyScreenProps {
+  vocabulary: VocabularyState;
+  onSave: (input: VocabularyListInput) => VocabularyList;
+  onDelete: (id: string) => void;
+  onSelect: (id: string | null) => void;
+  onCorrectSpellingsChange: (enabled: boolean) => void;
+  onClose: () => void;
+}
+
+interface Draft {
+  id?: string;
+  name: string;
+  termsText: string;
+}
+
+export default function VocabularyScreen({
+  vocabulary,
+  onSave,
+  onDelete,
+  onSelect,
+  onCorrectSpellingsChange,
+  onClose,
+}: VocabularyScreenProps) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const draftPrompt = draft
+    ? compileVocabularyPrompt(parseTerms(draft.termsText))
+    : null;
+
+  const handleSave = () => {
+    if (!draft) return;
+    try {
+      onSave(draft);
+      setDraft(null);
+    } catch (err) {
+      Alert.alert("Vocabulary", `${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  const handleDelete = (list: VocabularyList) => {
+    Alert.alert("Delete List", `Delete "${list.name}"?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: () => {
+          onDelete(list.id);
+          setDraft(null);
+        },
+      },
+    ]);
+  };
+
+  const renderListRow = (list: VocabularyList | null) => {
+    const id = list?.id ?? null;
+    const isSelected = vocabulary.selectedListId === id;
+    return (
+      <TouchableOpacity
+        key={id ?? "none"}
+        style={[styles.row, isSelected && styles.rowSelected]}
+        onPress={() => onSelect(id)}
+      >
+        <View style={styles.rowMeta}>
+          <Text style={styles.rowTitle}>{list ? list.name : "None"}</Text>
+          <Text style={styles.preview} numberOfLines={2}>
+            {list
+              ? list.terms.join(", ")
+              : "Transcribe without a prompt or corrections"}
+          </Text>
+        </View>
+        {list ? (
+          <TouchableOpacity
+            onPress={() =>
+              setDraft({
+                id: list.id,
+                name: list.name,
+                termsText: list.terms.join("\n"),
+              })
+            }
+          >
+            <Text style={styles.link}>Edit</Text>
+          </TouchableOpacity>
+        ) : null}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <ScrollView
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+    >
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.link}>‹ Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Vocabulary</Text>
+        <Text style={styles.subtitle}>
+          The selected list is passed to Whisper as a prompt for file and live
+          transcription, so names and acronyms are spelled the way you list
+          them. Earlier terms win when the list doesn't fit in the prompt.
+        </Text>
+      </View>
+
+      <View style={styles.toggleRow}>
+        <View style={styles.rowMeta}>
+          <Text style={styles.rowTitle}>Fix near-miss spellings</Text>
+          <Text style={styles.preview}>
+            Rewrites close matches such as "open AI" or "Kubernetis" in final
+            transcripts to the listed term.
+          </Text>
+        </View>
+        <TouchableOpacity
+          onPress={() => onCorrectSpellingsChange(!vocabulary.correctSpellings)}
+        >
+          <Text style={styles.link}>
+            {vocabulary.correctSpellings ? "Turn off" : "Turn on"}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionLabel}>Lists</Text>
+        {!draft ? (
+          <TouchableOpacity
+            onPress={() => setDraft({ name: "", termsText: "" })}
+          >
+            <Text style={styles.link}>New list</Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+
+      {draft && draftPrompt ? (
+        <View style={styles.card}>
+          <TextInput
+            style={styles.textInput}
+            value={draft.name}
+            onChangeText={(name) => setDraft({ ...draft, name })}
+            placeholder="List name"
+            placeholderTextColor="#8e8e93"
+            autoFocus={!draft.id}
+          />
+          <TextInput
+            style={[styles.textInput, styles.termsInput]}
+            value={draft.termsText}
+            onChangeText={(termsText) => setDraft({ ...draft, termsText })}
+            placeholder={"One term per line\nOpenAI\nKubernetes"}
+            placeholderTextColor="#8e8e93"
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+          />
+          <Text style={styles.details}>
+            {draftPrompt.includedTerms.length} of{" "}
+            {draftPrompt.includedTerms.length + draftPrompt.omittedTerms.length}{" "}
+            terms fit in the prompt (~{draftPrompt.estimatedTokens}/
+            {PROMPT_TOKEN_LIMIT} tokens)
+          </Text>
+          {draftPrompt.omittedTerms.length > 0 ? (
+            <Text style={styles.warning}>
+              Left out of the prompt: {draftPrompt.omittedTerms.join(", ")}.
+              They are still used to fix spellings.
+            </Text>
+          ) : null}
+          <View style={styles.actions}>
+            <TouchableOpacity onPress={() => setDraft(null)}>
+              <Text style={styles.deleteLink}>Cancel</Text>
+            </TouchableOpacity>
+            {draft.id ? (
+              <TouchableOpacity
+                onPress={() => {
+                  const list = vocabulary.lists.find((l) => l.id === draft.id);
+                  if (list) handleDelete(list);
+                }}
+              >
+                <Text style={styles.deleteLink}>Delete</Text>
+              </TouchableOpacity>
+            ) : null}
+            <TouchableOpacity onPress={handleSave}>
+              <Text style={styles.link}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : null}
+
+      {renderListRow(null)}
+      {vocabulary.lists.map(renderListRow)}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 48,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: "700",
+    color: "#111111",
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: "#555555",
+  },
+  details: {
+    fontSize: 12,
+    color: "#666666",
+    marginBottom: 4,
+  },
+  warning: {
+    fontSize: 12,
+    color: "#b25000",
+    marginBottom: 4,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#8e8e93",
+    textTransform: "uppercase",
+    letterSpacing: 0.6,
+  },
+  toggleRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    justifyContent: "space-between",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    justifyContent: "space-between",
+    borderWidth: 1,
+    borderColor: "#e5e5ea",
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 12,
+    backgroundColor: "#ffffff",
+  },
+  rowSelected: {
+    borderColor: ACCENT_COLOR,
+  },
+  rowMeta: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#111111",
+    marginBottom: 6,
+  },
+  preview: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: "#333333",
+  },
+  card: {
+    backgroundColor: "#ffffff",
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#e5e5ea",
+    padding: 16,
+    marginBottom: 12,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderColor: "#e5e5ea",
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: "#111111",
+    backgroundColor: "#ffffff",
+    marginBottom: 8,
+  },
+  termsInput: {
+    minHeight: 140,
+    textAlignVertical: "top",
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    columnGap: 16,
+    marginTop: 8,
+  },
+  link: {
+    color: ACCENT_COLOR,
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  deleteLink: {
+    color: "#111111",
+    fontSize: 12,
+    fontWeight: "600",
+  },
+});
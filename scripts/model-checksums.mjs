@@ -0,0 +1,46 @@
+// Prints the size and SHA-256 Hugging Face lists for every ggml file the
+// registry downloads (built-in models, the manifest and their quantized
+// variants), for pinning them in lib/modelRegistry.ts and
+// lib/modelManifest.json.
+//
+//   node scripts/model-checksums.mjs
+import { readFileSync } from "node:fs";
+
+const TREE_URL =
+  "https://huggingface.co/api/models/ggerganov/whisper.cpp/tree/main";
+
+const read = (path) =>
+  readFileSync(new URL(`../${path}`, import.meta.url), "utf8");
+
+// Filenames and quantizations are read from the sources as written
+const filenames = new Set();
+for (const source of [
+  read("lib/modelRegistry.ts"),
+  read("lib/modelManifest.json"),
+]) {
+  for (const entry of source.split(/\n\s*(?=\{\s*\n?\s*"?id"?:)/)) {
+    const filename = /"?filename"?:\s*"([^"]+\.bin)"/.exec(entry)?.[1];
+    if (!filename) continue;
+    filenames.add(filename);
+    for (const [, quantization] of entry.matchAll(
+      /"?quantization"?:\s*"(q\d_\d)"/g
+    )) {
+      filenames.add(filename.replace(/\.bin$/, `-${quantization}.bin`));
+    }
+  }
+}
+
+const response = await fetch(TREE_URL);
+if (!response.ok) {
+  throw new Error(`Hugging Face returned ${response.status} for ${TREE_URL}`);
+}
+const files = new Map((await response.json()).map((file) => [file.path, file]));
+
+for (const filename of [...filenames].sort()) {
+  const file = files.get(filename);
+  if (!file?.lfs) {
+    console.log(`${filename}: not found`);
+    continue;
+  }
+  console.log(`${filename}: size ${file.lfs.size}, sha256 "${file.lfs.oid}"`);
+}